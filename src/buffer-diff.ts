@@ -0,0 +1,103 @@
+/**
+ * Differences between the buffer and the one a step asks for, shown the way
+ * vimgolf does: text the learner still has to type is "missing", text they
+ * still have to delete is "extra". Lines that are in both are compared
+ * character by character.
+ */
+
+export type DiffKind = 'same' | 'missing' | 'extra';
+
+export interface DiffSegment {
+  kind: DiffKind;
+  text: string;
+}
+
+export interface DiffLine {
+  // 'changed' lines hold both missing and extra segments
+  kind: DiffKind | 'changed';
+  segments: DiffSegment[];
+}
+
+// Larger inputs are not aligned item by item; everything between them counts as different
+const MAX_DIFF_CELLS = 250_000;
+
+/** Longest common subsequence of two lists, as pairs of indexes in order. */
+export function commonSubsequence<T>(a: readonly T[], b: readonly T[]): [number, number][] {
+  if (a.length * b.length > MAX_DIFF_CELLS) return [];
+
+  // lengths[i][j]: length of the common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function pushSegment(segments: DiffSegment[], kind: DiffKind, text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.kind === kind) {
+    last.text += text;
+  } else {
+    segments.push({ kind, text });
+  }
+}
+
+// One line against its target, extra text before the missing text that replaces it
+function diffLine(current: string, target: string): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  const pairs = commonSubsequence([...current], [...target]);
+  pairs.push([current.length, target.length]);
+
+  let from = 0;
+  let to = 0;
+  for (const [i, j] of pairs) {
+    pushSegment(segments, 'extra', current.slice(from, i));
+    pushSegment(segments, 'missing', target.slice(to, j));
+    pushSegment(segments, 'same', current.slice(i, i + 1));
+    from = i + 1;
+    to = j + 1;
+  }
+  return segments;
+}
+
+/** The buffer against its target, one row per line of either. */
+export function diffBuffers(current: string[], target: string[]): DiffLine[] {
+  const rows: DiffLine[] = [];
+  const pairs = commonSubsequence(current, target);
+  pairs.push([current.length, target.length]);
+
+  let from = 0;
+  let to = 0;
+  for (const [i, j] of pairs) {
+    const extra = current.slice(from, i);
+    const missing = target.slice(to, j);
+    // Lines replaced by as many others are compared character by character
+    const paired = Math.min(extra.length, missing.length);
+    for (let k = 0; k < paired; k++) {
+      rows.push({ kind: 'changed', segments: diffLine(extra[k], missing[k]) });
+    }
+    for (const text of extra.slice(paired)) rows.push({ kind: 'extra', segments: [{ kind: 'extra', text }] });
+    for (const text of missing.slice(paired)) rows.push({ kind: 'missing', segments: [{ kind: 'missing', text }] });
+
+    if (i < current.length) rows.push({ kind: 'same', segments: [{ kind: 'same', text: current[i] }] });
+    from = i + 1;
+    to = j + 1;
+  }
+  return rows;
+}
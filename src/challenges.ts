@@ -0,0 +1,180 @@
+import { hashText } from './hash';
+import { isCount, isObject } from './lesson-format';
+
+/**
+ * VimGolf-style puzzles: turn the start buffer into the target in as few
+ * keystrokes as you can, ending in Normal mode. A challenge travels whole in
+ * the URL hash (`#challenge=...`, base64 of its JSON), so sharing one takes
+ * nothing but a link.
+ */
+
+export interface Challenge {
+  title: string;
+  description: string;
+  start: string[];
+  target: string[];
+  // Keystrokes to aim for
+  par?: number;
+}
+
+export interface ChallengeRun {
+  keys: number;
+  // The keys pressed, in key notation
+  sequence: string;
+  // When, in milliseconds since the epoch
+  date: number;
+}
+
+// What is kept between visits: challenges opened from links, and each challenge's best runs
+export interface ChallengeProgress {
+  shared: Challenge[];
+  runs: Record<string, ChallengeRun[]>;
+}
+
+export const LEADERBOARD_SIZE = 5;
+
+const HASH_PREFIX = '#challenge=';
+
+// Links are typed and pasted by people; anything bigger is not a puzzle
+const MAX_LINES = 200;
+const MAX_LINE_LENGTH = 500;
+const MAX_TITLE_LENGTH = 60;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export const CHALLENGES: Challenge[] = [
+  {
+    title: 'Semicolons',
+    description: 'Every statement needs its semicolon',
+    start: ['let a = 1', 'let b = 2', 'let c = 3'],
+    target: ['let a = 1;', 'let b = 2;', 'let c = 3;'],
+    par: 7,
+  },
+  {
+    title: 'Delete the Noise',
+    description: 'Only the lines worth keeping stay',
+    start: ['keep', 'DELETE', 'keep', 'DELETE', 'keep'],
+    target: ['keep', 'keep', 'keep'],
+    par: 6,
+  },
+  {
+    title: 'Rename',
+    description: 'usr is a user',
+    start: ['const usr = getUser();', 'console.log(usr.name);', 'return usr;'],
+    target: ['const user = getUser();', 'console.log(user.name);', 'return user;'],
+    par: 15,
+  },
+  {
+    title: 'Quote the List',
+    description: 'Turn bare words into a list of strings',
+    start: ['apple', 'banana', 'cherry'],
+    target: ['"apple",', '"banana",', '"cherry",'],
+    par: 14,
+  },
+  {
+    title: 'Countdown',
+    description: 'Put the lines in order',
+    start: ['3', '2', '1'],
+    target: ['1', '2', '3'],
+    par: 9,
+  },
+];
+
+/** Stable id for a challenge's leaderboard: the same buffers get the same id wherever they come from. */
+export function challengeId(challenge: Challenge): string {
+  return hashText(JSON.stringify([challenge.start, challenge.target]));
+}
+
+export function challengeHash(challenge: Challenge): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(challenge));
+  const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+  return HASH_PREFIX + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** The challenge in a URL hash, or null when there is none or it does not decode to one. */
+export function challengeFromHash(hash: string): Challenge | null {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+
+  try {
+    const binary = atob(hash.slice(HASH_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'));
+    const text = new TextDecoder().decode(Uint8Array.from(binary, (ch) => ch.charCodeAt(0)));
+    return parseChallenge(JSON.parse(text));
+  } catch {
+    return null;
+  }
+}
+
+/** A challenge from untrusted data, or the reason it is not one. */
+export function checkChallenge(data: unknown): Challenge | string {
+  if (!data || typeof data !== 'object') return 'A challenge must be an object';
+  const { title, description, start, target, par } = data as Record<string, unknown>;
+
+  if (typeof title !== 'string' || !title.trim()) return 'Give the challenge a title';
+  if (title.length > MAX_TITLE_LENGTH) return `Titles take up to ${MAX_TITLE_LENGTH} characters`;
+  if (description !== undefined && typeof description !== 'string') return 'The description must be text';
+  if (typeof description === 'string' && description.length > MAX_DESCRIPTION_LENGTH) {
+    return `Descriptions take up to ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  for (const [name, lines] of [['start', start], ['target', target]] as const) {
+    if (!Array.isArray(lines) || lines.length === 0 || !lines.every((line) => typeof line === 'string')) {
+      return `The ${name} buffer must be a list of lines`;
+    }
+    if (lines.length > MAX_LINES || lines.some((line: string) => line.length > MAX_LINE_LENGTH)) {
+      return `The ${name} buffer is too big: up to ${MAX_LINES} lines of ${MAX_LINE_LENGTH} characters`;
+    }
+  }
+  if ((start as string[]).join('\n') === (target as string[]).join('\n')) return 'The target must differ from the start';
+  if (par !== undefined && !(Number.isInteger(par) && (par as number) > 0)) return 'Par must be a whole number from 1';
+
+  return {
+    title: title.trim(),
+    description: typeof description === 'string' ? description.trim() : '',
+    start: start as string[],
+    target: target as string[],
+    ...(par !== undefined ? { par: par as number } : {}),
+  };
+}
+
+function parseChallenge(data: unknown): Challenge | null {
+  const result = checkChallenge(data);
+  return typeof result === 'string' ? null : result;
+}
+
+/**
+ * A run added to a personal leaderboard, fewest keys first with earlier runs
+ * winning ties. `place` counts from 1 and is null when the run did not make it.
+ */
+export function addRun(runs: ChallengeRun[], run: ChallengeRun): { runs: ChallengeRun[]; place: number | null } {
+  let index = runs.findIndex((other) => run.keys < other.keys);
+  if (index === -1) index = runs.length;
+
+  const updated = [...runs.slice(0, index), run, ...runs.slice(index)].slice(0, LEADERBOARD_SIZE);
+  return { runs: updated, place: index < LEADERBOARD_SIZE ? index + 1 : null };
+}
+
+function isChallengeRun(value: unknown): value is ChallengeRun {
+  return isObject(value) && isCount(value.keys) && typeof value.sequence === 'string' && typeof value.date === 'number';
+}
+
+/** Progress read back from storage, ignoring anything of the wrong shape. */
+export function restoreChallengeProgress(saved: unknown): ChallengeProgress {
+  const progress: ChallengeProgress = { shared: [], runs: {} };
+  if (!isObject(saved)) return progress;
+  const { shared, runs } = saved;
+
+  if (Array.isArray(shared)) {
+    for (const item of shared) {
+      const challenge = parseChallenge(item);
+      if (challenge) progress.shared.push(challenge);
+    }
+  }
+
+  if (isObject(runs)) {
+    for (const [id, list] of Object.entries(runs)) {
+      if (!Array.isArray(list)) continue;
+      const valid = list.filter(isChallengeRun);
+      if (valid.length > 0) progress.runs[id] = valid.slice(0, LEADERBOARD_SIZE);
+    }
+  }
+
+  return progress;
+}
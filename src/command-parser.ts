@@ -0,0 +1,320 @@
+/**
+ * Parser for normal-mode key sequences.
+ *
+ * Keys are fed in one at a time; after each key the engine asks whether the
+ * pending sequence is a complete command, a prefix of one, or nonsense.
+ * Grammar: [count] ["x [count]] (operator [count] (motion | text-object | operator) | motion | action)
+ */
+
+import { isValidRegister } from './registers';
+
+export type Operator = 'd' | 'c' | 'y' | '>' | '<' | '=' | 'g~' | 'gu' | 'gU';
+
+export interface KeyCommand {
+  key: string;
+  char?: string;
+}
+
+export interface NormalCommand {
+  count: number | null;
+  // Register given with a `"x` prefix; null means the unnamed register
+  register: string | null;
+  operator: Operator | null;
+  // With an operator, a null motion means the doubled form (dd, >>, gUU) on [count] lines
+  motion: KeyCommand | null;
+  textObject: KeyCommand | null;
+  action: KeyCommand | null;
+}
+
+export type ParseResult =
+  | { status: 'pending' }
+  | { status: 'invalid' }
+  | { status: 'complete'; command: NormalCommand };
+
+export const OPERATORS: Operator[] = ['d', 'c', 'y', '>', '<', '=', 'g~', 'gu', 'gU'];
+
+export const MOTIONS: string[] = [
+  'h', 'j', 'k', 'l', 'w', 'b', 'e', 'W', 'B', 'E', 'ge', 'gE', '0', '^', '$', 'G', 'gg', 'n', 'N', ';', ',',
+  '(', ')', '{', '}', '%', 'H', 'M', 'L', '*', '#', ' ', 'Backspace', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown',
+];
+
+// After an operator, `/` and `?` are motions to the match of the search typed next, as in `d/foo<CR>`
+export const SEARCH_MOTIONS: string[] = ['/', '?'];
+
+// Motions that take a character argument, e.g. `fx` or `'a`
+export const CHAR_MOTIONS: string[] = ['f', 'F', 't', 'T', '\'', '`'];
+
+// Motions that add to the jump list and set the '' mark
+export const JUMP_MOTIONS: string[] = ['G', 'gg', 'n', 'N', '*', '#', '\'', '`', '%', '(', ')', '{', '}', 'H', 'M', 'L'];
+
+// Commands that scroll the view, moving the cursor only as far as needed
+export const SCROLL_ACTIONS: string[] = ['<C-d>', '<C-u>', '<C-f>', '<C-b>', '<C-e>', '<C-y>', 'zt', 'zz', 'zb'];
+
+export const ACTIONS: string[] = [
+  'x', 'X', 's', 'S', 'D', 'C', 'Y', 'p', 'P', 'u', 'U', '<C-r>', 'J', '~', '<C-o>', '<C-i>', 'Tab',
+  'i', 'a', 'I', 'A', 'o', 'O', 'R', 'v', 'V', '<C-v>', 'gv', ':', '/', '?', '.', 'Escape',
+  ...SCROLL_ACTIONS,
+];
+
+// Actions that enter insert or replace mode; a count repeats the typed text
+export const INSERT_ACTIONS: string[] = ['i', 'a', 'I', 'A', 'o', 'O', 'R'];
+
+// Actions that modify the buffer and can be repeated with `.`
+export const CHANGE_ACTIONS: string[] = [
+  'x', 'X', 's', 'S', 'D', 'C', 'p', 'P', 'J', 'r', '~', ...INSERT_ACTIONS,
+];
+
+// Actions that are shorthand for an operator command, e.g. `x` is `dl`
+export const ACTION_ALIASES: Record<string, string[]> = {
+  x: ['d', 'l'],
+  X: ['d', 'h'],
+  D: ['d', '$'],
+  C: ['c', '$'],
+  s: ['c', 'l'],
+  S: ['c', 'c'],
+  Y: ['y', 'y'],
+};
+
+// Actions that take a character argument, e.g. `rx`, `qa` or `ma`
+export const CHAR_ACTIONS: string[] = ['r', 'q', '@', 'm'];
+
+export const TEXT_OBJECT_PREFIXES: string[] = ['i', 'a'];
+
+// Commands on a visual selection; any motion moves the cursor end of it instead
+export const VISUAL_ACTIONS: string[] = [
+  'd', 'x', 'X', 'D', 'y', 'Y', 'c', 's', 'C', 'S', 'R', '>', '<', '=', '~', 'u', 'U', 'g~', 'gu', 'gU',
+  'J', 'p', 'P', 'I', 'A', 'o', 'O', 'v', 'V', '<C-v>', ':', '/', '?', 'Escape', ...SCROLL_ACTIONS,
+];
+
+export const VISUAL_CHAR_ACTIONS: string[] = ['r'];
+
+export function isChangeCommand(command: NormalCommand): boolean {
+  if (command.operator) return command.operator !== 'y';
+  return command.action !== null && CHANGE_ACTIONS.includes(command.action.key);
+}
+
+// Commands that yank or delete into a register; in visual mode `d`, `y`, `c` and `R` are actions
+export function writesRegister(command: NormalCommand, visual: boolean = false): boolean {
+  if (command.operator) return ['d', 'c', 'y'].includes(command.operator);
+  const key = command.action?.key ?? '';
+  return key in ACTION_ALIASES || (visual && ['d', 'y', 'c', 'R'].includes(key));
+}
+
+// Multi-character names such as `gU` are sequences of keys; `Escape` or `<C-r>` are a single key
+function nameToKeys(name: string): string[] {
+  if (name.length > 1 && (name.startsWith('<') || /^[A-Z][a-z]/.test(name))) {
+    return [name];
+  }
+  return name.split('');
+}
+
+type MatchResult = { name: string; length: number } | 'pending' | null;
+
+function matchName(keys: string[], start: number, names: string[]): MatchResult {
+  let pending = false;
+
+  for (const name of names) {
+    const nameKeys = nameToKeys(name);
+    const available = keys.slice(start, start + nameKeys.length);
+
+    if (available.every((key, i) => key === nameKeys[i])) {
+      if (available.length === nameKeys.length) {
+        return { name, length: nameKeys.length };
+      }
+      pending = true;
+    }
+  }
+
+  return pending ? 'pending' : null;
+}
+
+function readCount(keys: string[], start: number): { count: number | null; length: number } {
+  let i = start;
+  if (i < keys.length && /^[1-9]$/.test(keys[i])) {
+    i++;
+    while (i < keys.length && /^[0-9]$/.test(keys[i])) i++;
+  }
+  return {
+    count: i > start ? parseInt(keys.slice(start, i).join('')) : null,
+    length: i - start,
+  };
+}
+
+function isCharArgument(key: string | undefined): key is string {
+  return key !== undefined && key.length === 1;
+}
+
+export function parseNormalCommand(keys: string[]): ParseResult {
+  const pending: ParseResult = { status: 'pending' };
+  const invalid: ParseResult = { status: 'invalid' };
+
+  if (keys.includes('Escape') && keys.length > 1) return invalid;
+
+  let i = 0;
+  const first = readCount(keys, i);
+  i += first.length;
+  if (i >= keys.length) return pending;
+
+  const command: NormalCommand = {
+    count: first.count,
+    register: null,
+    operator: null,
+    motion: null,
+    textObject: null,
+    action: null,
+  };
+
+  if (keys[i] === '"') {
+    if (i + 1 >= keys.length) return pending;
+    if (!isValidRegister(keys[i + 1])) return invalid;
+    command.register = keys[i + 1];
+    i += 2;
+
+    const afterRegister = readCount(keys, i);
+    i += afterRegister.length;
+    if (afterRegister.count !== null) {
+      command.count = (command.count ?? 1) * afterRegister.count;
+    }
+    if (i >= keys.length) return pending;
+  }
+
+  const operator = matchName(keys, i, OPERATORS);
+  // `g` alone could still become `gg` as well as `gu`
+  if (operator === 'pending') return pending;
+
+  if (operator) {
+    command.operator = operator.name as Operator;
+    i += operator.length;
+
+    const second = readCount(keys, i);
+    i += second.length;
+    if (second.count !== null) {
+      command.count = (command.count ?? 1) * second.count;
+    }
+    if (i >= keys.length) return pending;
+
+    // Doubled operator: dd, >>, g~~, guu, gUU (and the long forms g~g~, gugu, gUgU)
+    const opKeys = nameToKeys(operator.name);
+    const rest = keys.slice(i);
+    const isOpPrefix = opKeys.length > 1 && rest.every((key, n) => key === opKeys[n]);
+    if (rest.length === 1 && rest[0] === opKeys[opKeys.length - 1]) {
+      return { status: 'complete', command };
+    }
+    if (isOpPrefix && rest.length === opKeys.length) return { status: 'complete', command };
+    if (isOpPrefix && rest.length < opKeys.length) return pending;
+
+    if (TEXT_OBJECT_PREFIXES.includes(keys[i])) {
+      if (i + 1 >= keys.length) return pending;
+      if (!isCharArgument(keys[i + 1]) || i + 2 !== keys.length) return invalid;
+      command.textObject = { key: keys[i], char: keys[i + 1] };
+      return { status: 'complete', command };
+    }
+
+    if (SEARCH_MOTIONS.includes(keys[i])) {
+      if (i + 1 !== keys.length) return invalid;
+      command.motion = { key: keys[i] };
+      return { status: 'complete', command };
+    }
+
+    return parseMotion(keys, i, command);
+  }
+
+  const motionResult = parseMotion(keys, i, command);
+  if (motionResult.status !== 'invalid') return motionResult;
+
+  const action = matchName(keys, i, ACTIONS);
+  if (action === 'pending') return pending;
+  if (action) {
+    if (i + action.length !== keys.length) return invalid;
+    command.action = { key: action.name };
+    return { status: 'complete', command };
+  }
+
+  if (CHAR_ACTIONS.includes(keys[i])) {
+    if (i + 1 >= keys.length) return pending;
+    if (!isCharArgument(keys[i + 1]) || i + 2 !== keys.length) return invalid;
+    command.action = { key: keys[i], char: keys[i + 1] };
+    return { status: 'complete', command };
+  }
+
+  return invalid;
+}
+
+/**
+ * Keys typed in visual mode: [count] ["x] (motion | text-object | action).
+ * There are no operators; actions such as `d` act on the selection.
+ */
+export function parseVisualCommand(keys: string[]): ParseResult {
+  const pending: ParseResult = { status: 'pending' };
+  const invalid: ParseResult = { status: 'invalid' };
+
+  if (keys.includes('Escape') && keys.length > 1) return invalid;
+
+  let i = 0;
+  const command: NormalCommand = {
+    count: null,
+    register: null,
+    operator: null,
+    motion: null,
+    textObject: null,
+    action: null,
+  };
+
+  const first = readCount(keys, i);
+  i += first.length;
+  command.count = first.count;
+  if (i >= keys.length) return pending;
+
+  if (keys[i] === '"') {
+    if (i + 1 >= keys.length) return pending;
+    if (!isValidRegister(keys[i + 1])) return invalid;
+    command.register = keys[i + 1];
+    i += 2;
+    if (i >= keys.length) return pending;
+  }
+
+  if (TEXT_OBJECT_PREFIXES.includes(keys[i])) {
+    if (i + 1 >= keys.length) return pending;
+    if (!isCharArgument(keys[i + 1]) || i + 2 !== keys.length) return invalid;
+    command.textObject = { key: keys[i], char: keys[i + 1] };
+    return { status: 'complete', command };
+  }
+
+  const motionResult = parseMotion(keys, i, command);
+  if (motionResult.status !== 'invalid') return motionResult;
+
+  const action = matchName(keys, i, VISUAL_ACTIONS);
+  if (action === 'pending') return pending;
+  if (action) {
+    if (i + action.length !== keys.length) return invalid;
+    command.action = { key: action.name };
+    return { status: 'complete', command };
+  }
+
+  if (VISUAL_CHAR_ACTIONS.includes(keys[i])) {
+    if (i + 1 >= keys.length) return pending;
+    if (!isCharArgument(keys[i + 1]) || i + 2 !== keys.length) return invalid;
+    command.action = { key: keys[i], char: keys[i + 1] };
+    return { status: 'complete', command };
+  }
+
+  return invalid;
+}
+
+function parseMotion(keys: string[], start: number, command: NormalCommand): ParseResult {
+  if (CHAR_MOTIONS.includes(keys[start])) {
+    if (start + 1 >= keys.length) return { status: 'pending' };
+    if (!isCharArgument(keys[start + 1]) || start + 2 !== keys.length) return { status: 'invalid' };
+    command.motion = { key: keys[start], char: keys[start + 1] };
+    return { status: 'complete', command };
+  }
+
+  const motion = matchName(keys, start, MOTIONS);
+  if (motion === 'pending') return { status: 'pending' };
+  if (motion && start + motion.length === keys.length) {
+    command.motion = { key: motion.name };
+    return { status: 'complete', command };
+  }
+
+  return { status: 'invalid' };
+}
@@ -0,0 +1,310 @@
+/**
+ * Parser for Ex command lines: `[range] name[!] [args]`.
+ *
+ * Addresses are resolved while parsing, so the parser is handed a context
+ * that knows the buffer, the cursor line, marks and how to search.
+ * Line numbers in a parsed command are 0-based and the range is inclusive.
+ */
+
+export interface ExContext {
+  lines: string[];
+  cursorLine: number;
+  mark: (name: string) => number | null;
+  search: (pattern: string, fromLine: number, forward: boolean) => number | null;
+}
+
+export interface ExRange {
+  start: number;
+  end: number;
+}
+
+export interface ExCommand {
+  // Null when no address was given; commands pick their own default
+  range: ExRange | null;
+  name: string;
+  bang: boolean;
+  args: string;
+}
+
+export type ExParseResult =
+  | { status: 'ok'; command: ExCommand }
+  | { status: 'error'; message: string };
+
+// Full command names with the length of their shortest abbreviation
+const EX_COMMANDS: [string, number][] = [
+  ['substitute', 1],
+  ['&', 1],
+  ['global', 1],
+  ['vglobal', 1],
+  ['normal', 4],
+  ['delete', 1],
+  ['yank', 1],
+  ['print', 1],
+  ['join', 1],
+  ['>', 1],
+  ['<', 1],
+  ['write', 1],
+  ['quit', 1],
+  ['wq', 2],
+  ['xit', 1],
+  ['registers', 3],
+  ['display', 2],
+  ['nohlsearch', 3],
+  ['marks', 5],
+  ['set', 2],
+];
+
+export function resolveCommandName(name: string): string | null {
+  const found = EX_COMMANDS.find(([full, min]) => name.length >= min && full.startsWith(name));
+  return found ? found[0] : null;
+}
+
+class AddressError extends Error {}
+
+export function parseExCommand(text: string, context: ExContext): ExParseResult {
+  let pos = 0;
+  let range: ExRange | null = null;
+  let cursorLine = context.cursorLine;
+
+  const skipBlanks = () => {
+    while (text[pos] === ' ' || text[pos] === ':') pos++;
+  };
+
+  // A single address with its offsets, or null when there is none
+  const readAddress = (): number | null => {
+    skipBlanks();
+    let line: number | null = null;
+    const ch = text[pos];
+
+    if (ch !== undefined && /\d/.test(ch)) {
+      const digits = /^\d+/.exec(text.slice(pos))![0];
+      pos += digits.length;
+      line = parseInt(digits) - 1;
+    } else if (ch === '.') {
+      pos++;
+      line = cursorLine;
+    } else if (ch === '$') {
+      pos++;
+      line = context.lines.length - 1;
+    } else if (ch === '\'') {
+      const name = text[pos + 1] ?? '';
+      pos += 2;
+      line = context.mark(name);
+      if (line === null) throw new AddressError('E20: Mark not set');
+    } else if (ch === '/' || ch === '?') {
+      const end = findDelimiter(text, pos + 1, ch);
+      const pattern = text.slice(pos + 1, end);
+      pos = Math.min(end + 1, text.length);
+      line = context.search(pattern, cursorLine, ch === '/');
+      if (line === null) throw new AddressError(`E486: Pattern not found: ${pattern}`);
+    }
+
+    // `+3`, `-`, `++`: relative to the address, or to the cursor line without one
+    while (text[pos] === '+' || text[pos] === '-') {
+      const sign = text[pos] === '+' ? 1 : -1;
+      pos++;
+      const digits = /^\d*/.exec(text.slice(pos))![0];
+      pos += digits.length;
+      line = (line ?? cursorLine) + sign * (digits ? parseInt(digits) : 1);
+    }
+
+    return line;
+  };
+
+  try {
+    skipBlanks();
+    if (text[pos] === '%') {
+      pos++;
+      range = { start: 0, end: context.lines.length - 1 };
+    } else {
+      const first = readAddress();
+      if (first !== null) range = { start: first, end: first };
+
+      while (text[pos] === ',' || text[pos] === ';') {
+        // With `;` the second address is relative to the first
+        if (text[pos] === ';' && range) cursorLine = range.end;
+        pos++;
+        const next = readAddress() ?? cursorLine;
+        range = { start: range ? range.end : cursorLine, end: next };
+      }
+    }
+  } catch (error) {
+    if (error instanceof AddressError) return { status: 'error', message: error.message };
+    throw error;
+  }
+
+  if (range) {
+    const last = context.lines.length - 1;
+    if (range.start > last || range.end > last || range.start < 0 || range.end < 0) {
+      return { status: 'error', message: 'E16: Invalid range' };
+    }
+    if (range.start > range.end) {
+      range = { start: range.end, end: range.start };
+    }
+  }
+
+  skipBlanks();
+  let name = '';
+  if (/[a-zA-Z]/.test(text[pos] ?? '')) {
+    // `:s` takes its delimiter straight after the name, as in `:s#a#b#`
+    const match = /^[a-zA-Z]+/.exec(text.slice(pos))![0];
+    name = match.startsWith('s') && !resolveCommandName(match) ? 's' : match;
+  } else if (pos < text.length) {
+    name = text[pos];
+  }
+  pos += name.length;
+
+  const bang = text[pos] === '!';
+  if (bang) pos++;
+
+  return { status: 'ok', command: { range, name, bang, args: text.slice(pos).trim() } };
+}
+
+// Index of the next unescaped `delimiter`, or the end of the text
+export function findDelimiter(text: string, from: number, delimiter: string): number {
+  let i = from;
+  while (i < text.length && text[i] !== delimiter) {
+    if (text[i] === '\\') i++;
+    i++;
+  }
+  return Math.min(i, text.length);
+}
+
+/**
+ * Arguments of `:g/pattern/command`. The delimiter is any punctuation;
+ * without a command the matching lines are printed.
+ */
+export function parseGlobal(args: string): { pattern: string; command: string } | null {
+  const delimiter = args[0];
+  if (!delimiter || /[\w\s"|\\]/.test(delimiter)) return null;
+
+  const end = findDelimiter(args, 1, delimiter);
+  return { pattern: args.slice(1, end), command: args.slice(end + 1).trim() || 'p' };
+}
+
+// `:d x 3`: an optional register and count
+export function parseRegisterCount(args: string): { register: string | null; count: number | null } {
+  const match = /^([^\d\s])?\s*(\d*)/.exec(args)!;
+  return { register: match[1] ?? null, count: match[2] ? parseInt(match[2]) : null };
+}
+
+export interface Substitution {
+  pattern: string;
+  replacement: string;
+  flags: string;
+  count: number | null;
+}
+
+/**
+ * Arguments of `:s/pattern/replacement/flags count`. Any punctuation can be
+ * the delimiter. Without one (`:s g`) the arguments are only flags and a
+ * count, and the caller repeats the previous substitution.
+ */
+export function parseSubstitute(args: string): { substitution: Partial<Substitution>; repeat: boolean } {
+  const delimiter = args[0];
+
+  if (!delimiter || /[\w\s"|\\&]/.test(delimiter)) {
+    return { substitution: parseFlags(args), repeat: true };
+  }
+
+  const patternEnd = findDelimiter(args, 1, delimiter);
+  const replacementEnd = findDelimiter(args, patternEnd + 1, delimiter);
+  const replacement = args
+    .slice(patternEnd + 1, replacementEnd)
+    .split('\\' + delimiter)
+    .join(delimiter);
+
+  return {
+    substitution: {
+      pattern: args.slice(1, patternEnd),
+      replacement,
+      ...parseFlags(args.slice(replacementEnd + 1)),
+    },
+    repeat: false,
+  };
+}
+
+function parseFlags(text: string): { flags: string; count: number | null } {
+  const match = /^\s*([&cegiInp#lr]*)\s*(\d*)/.exec(text)!;
+  return { flags: match[1], count: match[2] ? parseInt(match[2]) : null };
+}
+
+/**
+ * The text a match is replaced with. Supports `&` and `\0` (whole match),
+ * `\1`-`\9`, `\r` (line break), `\t`, and the case modifiers `\u` `\l`
+ * `\U` `\L` `\E`.
+ */
+export function expandReplacement(replacement: string, match: RegExpExecArray): string {
+  let result = '';
+  let oneShot: 'u' | 'l' | null = null;
+  let ongoing: 'U' | 'L' | null = null;
+
+  const append = (text: string) => {
+    for (const ch of text) {
+      let out = ongoing === 'U' ? ch.toUpperCase() : ongoing === 'L' ? ch.toLowerCase() : ch;
+      if (oneShot) {
+        out = oneShot === 'u' ? out.toUpperCase() : out.toLowerCase();
+        oneShot = null;
+      }
+      result += out;
+    }
+  };
+
+  for (let i = 0; i < replacement.length; i++) {
+    const ch = replacement[i];
+
+    if (ch === '&') {
+      append(match[0]);
+    } else if (ch === '\\' && i + 1 < replacement.length) {
+      const next = replacement[++i];
+      if (/\d/.test(next)) append(match[parseInt(next)] ?? '');
+      else if (next === 'r') result += '\n';
+      else if (next === 'n') result += '\0';
+      else if (next === 't') append('\t');
+      else if (next === 'u' || next === 'l') oneShot = next;
+      else if (next === 'U' || next === 'L') ongoing = next;
+      else if (next === 'E' || next === 'e') ongoing = null;
+      else append(next);
+    } else {
+      append(ch);
+    }
+  }
+
+  return result;
+}
+
+// `~` in a replacement stands for the previous replacement string
+export function resolveTilde(replacement: string, previous: string): string {
+  return replacement.replace(/\\.|~/g, (token) => (token === '~' ? previous : token));
+}
+
+/** Replace the first match in `text` (or every match with `global`). */
+export function substituteLine(
+  text: string,
+  regex: RegExp,
+  replacement: string,
+  global: boolean
+): { text: string; count: number } {
+  let result = '';
+  let last = 0;
+  let count = 0;
+  let match: RegExpExecArray | null;
+
+  regex.lastIndex = 0;
+  while ((match = regex.exec(text)) !== null) {
+    result += text.slice(last, match.index) + expandReplacement(replacement, match);
+    last = match.index + match[0].length;
+    count++;
+    if (!global) break;
+
+    // Step over the character after an empty match so it is not matched again
+    if (match[0].length === 0) {
+      if (match.index >= text.length) break;
+      result += text[match.index];
+      last = match.index + 1;
+      regex.lastIndex = last;
+    }
+  }
+
+  return { text: result + text.slice(last), count };
+}
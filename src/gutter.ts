@@ -0,0 +1,65 @@
+import { commonSubsequence } from './buffer-diff';
+import { VimOptions } from './options';
+
+/**
+ * What the line-number column shows. With 'relativenumber' every line is
+ * numbered by its distance from the cursor, so a count for `j`, `k` or `dd`
+ * can be read straight off the gutter; with 'number' as well the cursor line
+ * keeps its own number (hybrid numbering).
+ *
+ * Signs next to the numbers show how the buffer differs from where it
+ * started, as a version-control gutter would.
+ */
+
+export type LineChange = 'added' | 'changed' | 'removed';
+
+export function lineNumberLabel(
+  line: number,
+  cursorLine: number,
+  options: Pick<VimOptions, 'number' | 'relativenumber'>
+): string {
+  if (!options.relativenumber) return String(line + 1);
+  if (line === cursorLine) return options.number ? String(line + 1) : '0';
+  return String(Math.abs(line - cursorLine));
+}
+
+/**
+ * Lines of `current` that were added or changed since `original`. A line
+ * that took the place of deleted lines, or the last line when they were at
+ * the end, is marked 'removed' unless it changed itself.
+ */
+export function lineChanges(original: string[], current: string[]): Map<number, LineChange> {
+  const changes = new Map<number, LineChange>();
+
+  const max = Math.min(original.length, current.length);
+  let prefix = 0;
+  while (prefix < max && original[prefix] === current[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < max - prefix && original[original.length - 1 - suffix] === current[current.length - 1 - suffix]) suffix++;
+
+  const before = original.slice(prefix, original.length - suffix);
+  const after = current.slice(prefix, current.length - suffix);
+  if (before.length === 0 && after.length === 0) return changes;
+
+  // Pairs of equal lines (index in `before`, index in `after`) in order, ending with the end of both
+  const matches = commonSubsequence(before, after);
+  matches.push([before.length, after.length]);
+
+  let from = 0;
+  let to = 0;
+  for (const [i, j] of matches) {
+    const removed = i - from;
+    const added = j - to;
+    for (let k = 0; k < added; k++) {
+      changes.set(prefix + to + k, k < removed ? 'changed' : 'added');
+    }
+    if (added === 0 && removed > 0) {
+      const line = Math.min(prefix + to, current.length - 1);
+      if (!changes.has(line)) changes.set(line, 'removed');
+    }
+    from = i + 1;
+    to = j + 1;
+  }
+
+  return changes;
+}
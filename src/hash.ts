@@ -0,0 +1,16 @@
+import { EditorState } from './types';
+
+/** Short, stable hash of a string (32-bit FNV-1a in base 36). Not for anything secret. */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// What a key leaves behind that a replay has to match: the buffer, the cursor and the mode
+export function stateHash(state: Pick<EditorState, 'lines' | 'cursor' | 'mode'>): string {
+  return hashText(JSON.stringify([state.lines, state.cursor.line, state.cursor.col, state.mode]));
+}
@@ -0,0 +1,117 @@
+/**
+ * Indentation settings and the helpers that apply them. Indents are measured
+ * in columns: a tab reaches the next multiple of `tabstop`, and new indents
+ * are made of tabs and spaces, or only spaces with `expandtab`.
+ */
+
+export interface IndentOptions {
+  // Columns one level of indent takes, for >>, <<, =, Ctrl-T and Ctrl-D
+  shiftwidth: number;
+  // Columns a tab character takes
+  tabstop: number;
+  expandtab: boolean;
+  // New lines (Enter, o, O) start with the indent of the line they came from
+  autoindent: boolean;
+}
+
+export const DEFAULT_INDENT_OPTIONS: IndentOptions = {
+  shiftwidth: 2,
+  tabstop: 8,
+  expandtab: true,
+  autoindent: true,
+};
+
+// Columns `text` takes on screen when it starts in column 0
+export function displayWidth(text: string, tabstop: number): number {
+  let width = 0;
+  for (const ch of text) {
+    width = ch === '\t' ? (Math.floor(width / tabstop) + 1) * tabstop : width + 1;
+  }
+  return width;
+}
+
+export function leadingWhitespace(text: string): string {
+  return /^\s*/.exec(text)![0];
+}
+
+export function indentWidth(text: string, options: IndentOptions): number {
+  return displayWidth(leadingWhitespace(text), options.tabstop);
+}
+
+export function indentString(width: number, options: IndentOptions): string {
+  if (options.expandtab) return ' '.repeat(width);
+  return '\t'.repeat(Math.floor(width / options.tabstop)) + ' '.repeat(width % options.tabstop);
+}
+
+// The line with its indent replaced by one `width` columns wide
+export function setIndent(text: string, width: number, options: IndentOptions): string {
+  return indentString(Math.max(0, width), options) + text.substring(leadingWhitespace(text).length);
+}
+
+/** `>>` and `<<`: one shiftwidth more or less. Like Vim, empty lines are not shifted right. */
+export function shiftLine(text: string, direction: 1 | -1, options: IndentOptions): string {
+  if (direction === 1 && text.length === 0) return text;
+  return setIndent(text, indentWidth(text, options) + direction * options.shiftwidth, options);
+}
+
+/** Ctrl-T and Ctrl-D: the next or previous multiple of shiftwidth. */
+export function roundShiftLine(text: string, direction: 1 | -1, options: IndentOptions): string {
+  const { shiftwidth } = options;
+  const width = indentWidth(text, options);
+  const target = direction === 1
+    ? (Math.floor(width / shiftwidth) + 1) * shiftwidth
+    : (Math.ceil(width / shiftwidth) - 1) * shiftwidth;
+  return setIndent(text, target, options);
+}
+
+/** What Tab inserts at a column: spaces up to the next multiple of shiftwidth, or a tab character. */
+export function tabText(column: number, options: IndentOptions): string {
+  if (!options.expandtab) return '\t';
+  const { shiftwidth } = options;
+  return ' '.repeat(shiftwidth - (column % shiftwidth));
+}
+
+/**
+ * Brace-based reindent for `=`: each line gets one level per unclosed `{`,
+ * `(` or `[` above it, counting from the nearest non-blank line before the
+ * range. Returns the new text of lines `first` to `last`.
+ */
+export function reindentLines(lines: string[], first: number, last: number, options: IndentOptions): string[] {
+  const { shiftwidth } = options;
+
+  let above = first - 1;
+  while (above >= 0 && !lines[above].trim()) above--;
+
+  let level = 0;
+  if (above >= 0) {
+    const text = lines[above];
+    const ownLevel = Math.floor(indentWidth(text, options) / shiftwidth);
+    const { before, after } = bracketLevelChange(text.trim());
+    level = ownLevel - before + after;
+  }
+
+  const result: string[] = [];
+  for (let i = first; i <= last; i++) {
+    const trimmed = lines[i].trim();
+    if (!trimmed) {
+      result.push('');
+      continue;
+    }
+
+    const { before, after } = bracketLevelChange(trimmed);
+    const lineLevel = Math.max(0, level + before);
+    result.push(indentString(lineLevel * shiftwidth, options) + trimmed);
+    level = Math.max(0, lineLevel - before + after);
+  }
+  return result;
+}
+
+// Closing brackets at the start of a line dedent the line itself; the net
+// balance (at most one level deeper) applies to the lines that follow
+function bracketLevelChange(text: string): { before: number; after: number } {
+  const code = text.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '').replace(/\/\/.*$/, '');
+  const leadingClosers = (/^[)\]}]+/.exec(code)?.[0].length) ?? 0;
+  const opens = (code.match(/[([{]/g) || []).length;
+  const closes = (code.match(/[)\]}]/g) || []).length;
+  return { before: -leadingClosers, after: Math.min(1, opens - closes) };
+}
@@ -0,0 +1,76 @@
+/**
+ * Keys as the engine passes them around internally ("tokens": `x`, `Escape`,
+ * `<C-r>`) and as Vim writes them in registers (`x<Esc><C-r>`).
+ */
+
+const NOTATION_NAMES: Record<string, string> = {
+  Escape: 'Esc',
+  Enter: 'CR',
+  Backspace: 'BS',
+  Tab: 'Tab',
+  Delete: 'Del',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  '<': 'lt',
+};
+
+const TOKENS_BY_NAME: Record<string, string> = Object.fromEntries(
+  Object.entries(NOTATION_NAMES).map(([token, name]) => [name.toLowerCase(), token])
+);
+
+/** Token for a keypress as it appears in key sequences: `x`, `Escape` or `<C-r>`. */
+export function keyToken(key: string, ctrl: boolean): string {
+  return ctrl && key.length === 1 ? `<C-${key}>` : key;
+}
+
+export function parseKeyToken(token: string): { key: string; ctrl: boolean } {
+  const match = /^<C-(.)>$/.exec(token);
+  return match ? { key: match[1], ctrl: true } : { key: token, ctrl: false };
+}
+
+export function tokensToNotation(tokens: string[]): string {
+  return tokens
+    .map((token) => {
+      if (NOTATION_NAMES[token]) return `<${NOTATION_NAMES[token]}>`;
+      return token;
+    })
+    .join('');
+}
+
+/**
+ * Split register text back into tokens. Unknown `<...>` sequences are taken
+ * literally, so yanked text containing "<" still plays back as typed.
+ */
+export function notationToTokens(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      tokens.push('Enter');
+      continue;
+    }
+
+    if (text[i] === '<') {
+      const close = text.indexOf('>', i);
+      const name = close === -1 ? '' : text.slice(i + 1, close);
+      const ctrl = /^C-(.)$/i.exec(name);
+
+      if (ctrl) {
+        tokens.push(`<C-${ctrl[1].toLowerCase()}>`);
+        i = close;
+        continue;
+      }
+      if (TOKENS_BY_NAME[name.toLowerCase()]) {
+        tokens.push(TOKENS_BY_NAME[name.toLowerCase()]);
+        i = close;
+        continue;
+      }
+    }
+
+    tokens.push(text[i]);
+  }
+
+  return tokens;
+}
@@ -0,0 +1,511 @@
+import { notationToTokens } from './key-notation';
+import { screenLine, topFor } from './viewport';
+import { CursorPosition, EditorState, Lesson, LessonStep, StepTarget, VimMode } from './types';
+
+/**
+ * Lessons written as data instead of code. A lesson file is JSON:
+ *
+ *   {
+ *     "id": "basic-movement",
+ *     "title": "Basic Movement",
+ *     "description": "Learn h, j, k, l navigation",
+ *     "keys": "h j k l",
+ *     "icon": "🎯",
+ *     "steps": [
+ *       {
+ *         "instruction": "Press <kbd>j</kbd> to move down",
+ *         "hint": "j looks like a down arrow",
+ *         "buffer": ["first line", "second line"],
+ *         "cursor": { "line": 0, "col": 0 },
+ *         "allowedKeys": "hjkl",
+ *         "expect": { "cursor": { "line": 1 } }
+ *       }
+ *     ]
+ *   }
+ *
+ * Lines and columns count from 0. A step without "buffer" carries on with
+ * the buffer the previous step left, and "allowedKeys" (in key notation,
+ * `hjkl<Esc><C-d>`) limits the keys the editor takes during the step.
+ * Everything under "expect" must hold for the step to be done; see
+ * Expectation for what can be checked.
+ *
+ * Instead of (or as well as) "expect", a step can give the buffer it wants,
+ * and optionally where the cursor ends up:
+ *
+ *   "target": { "buffer": ["print()"], "cursor": { "line": 0, "col": 6 } }
+ *
+ * The task panel then shows the difference between the buffer and the
+ * target while the learner works.
+ *
+ * Steps are scored by keystrokes. "solution" gives the shortest known keys
+ * (`ct,title<Esc>`) and "par" the count to aim for, which is the length of
+ * the solution unless given.
+ */
+
+// A string must match exactly; an object lists tests that must all pass
+export type TextMatch =
+  | string
+  | {
+      equals?: string;
+      contains?: string;
+      startsWith?: string;
+      endsWith?: string;
+      // A JavaScript regular expression
+      matches?: string;
+      length?: NumberMatch;
+      not?: TextMatch;
+    };
+
+// A number must match exactly; an object gives inclusive bounds
+export type NumberMatch = number | { min?: number; max?: number };
+
+export interface Expectation {
+  buffer?: string[];
+  lineCount?: NumberMatch;
+  // By line number: { "0": "first line" }
+  lines?: Record<string, TextMatch>;
+  everyLine?: TextMatch;
+  noLine?: TextMatch;
+  cursor?: { line?: NumberMatch; col?: NumberMatch };
+  mode?: VimMode;
+  registers?: Record<string, TextMatch>;
+  // The register a macro is being recorded into, or null for none
+  recording?: string | null;
+  marks?: Record<string, { line?: NumberMatch; col?: NumberMatch }>;
+  message?: TextMatch;
+  // Title of the output panel (`:registers`, `:set all`, ...)
+  output?: TextMatch;
+  lastSearch?: TextMatch;
+  // The last key changed the buffer
+  changed?: boolean;
+  // How the last key scrolled the window: a direction, a page (at least a
+  // window height less two lines) or an exact number of lines down
+  scrolled?: 'up' | 'down' | 'page-up' | 'page-down' | number;
+  cursorMoved?: 'up' | 'down';
+  // The cursor is on the line H, M or L would go to
+  screenLine?: 'H' | 'M' | 'L';
+  // The window is scrolled the way zt, zz or zb would put the cursor line
+  scrolledTo?: 'top' | 'middle' | 'bottom';
+  // What held before the last key
+  before?: Expectation;
+}
+
+export interface StepFile {
+  instruction: string;
+  hint: string;
+  buffer?: string[];
+  cursor?: CursorPosition;
+  allowedKeys?: string;
+  target?: { buffer: string[]; cursor?: CursorPosition };
+  expect?: Expectation;
+  solution?: string;
+  par?: number;
+}
+
+export interface LessonFile {
+  id: string;
+  title: string;
+  description: string;
+  keys: string;
+  icon: string;
+  steps: StepFile[];
+}
+
+export interface LessonIssue {
+  file: string;
+  // Where in the file, as `steps[2].expect.cursor`
+  path: string;
+  message: string;
+}
+
+const MODES: VimMode[] = ['normal', 'insert', 'replace', 'visual', 'visual-line', 'visual-block', 'command'];
+
+function matchesNumber(value: number, match: NumberMatch): boolean {
+  if (typeof match === 'number') return value === match;
+  return (match.min === undefined || value >= match.min) && (match.max === undefined || value <= match.max);
+}
+
+function matchesText(text: string, match: TextMatch): boolean {
+  if (typeof match === 'string') return text === match;
+  return (
+    (match.equals === undefined || text === match.equals) &&
+    (match.contains === undefined || text.includes(match.contains)) &&
+    (match.startsWith === undefined || text.startsWith(match.startsWith)) &&
+    (match.endsWith === undefined || text.endsWith(match.endsWith)) &&
+    (match.matches === undefined || new RegExp(match.matches).test(text)) &&
+    (match.length === undefined || matchesNumber(text.length, match.length)) &&
+    (match.not === undefined || !matchesText(text, match.not))
+  );
+}
+
+function matchesPosition(position: CursorPosition | undefined, match: { line?: NumberMatch; col?: NumberMatch }): boolean {
+  return (
+    !!position &&
+    (match.line === undefined || matchesNumber(position.line, match.line)) &&
+    (match.col === undefined || matchesNumber(position.col, match.col))
+  );
+}
+
+function matchesScroll(state: EditorState, prev: EditorState, scrolled: NonNullable<Expectation['scrolled']>): boolean {
+  const distance = state.viewport.top - prev.viewport.top;
+  const page = state.viewport.height - 2;
+  switch (scrolled) {
+    case 'up': return distance < 0;
+    case 'down': return distance > 0;
+    case 'page-up': return -distance >= page;
+    case 'page-down': return distance >= page;
+    default: return distance === scrolled;
+  }
+}
+
+export function meetsTarget(state: EditorState, target: StepTarget): boolean {
+  const { cursor } = target;
+  if (cursor && (state.cursor.line !== cursor.line || state.cursor.col !== cursor.col)) return false;
+  return state.lines.join('\n') === target.lines.join('\n');
+}
+
+/** Whether a state meets an expectation; checks against the state before the last key fail without one. */
+export function meetsExpectation(state: EditorState, prev: EditorState | null, expect: Expectation): boolean {
+  const { lines, cursor } = state;
+
+  if (expect.buffer && lines.join('\n') !== expect.buffer.join('\n')) return false;
+  if (expect.lineCount !== undefined && !matchesNumber(lines.length, expect.lineCount)) return false;
+  for (const [line, match] of Object.entries(expect.lines ?? {})) {
+    const text = lines[Number(line)];
+    if (text === undefined || !matchesText(text, match)) return false;
+  }
+  if (expect.everyLine !== undefined && !lines.every((line) => matchesText(line, expect.everyLine!))) return false;
+  if (expect.noLine !== undefined && lines.some((line) => matchesText(line, expect.noLine!))) return false;
+  if (expect.cursor && !matchesPosition(cursor, expect.cursor)) return false;
+  if (expect.mode && state.mode !== expect.mode) return false;
+
+  for (const [name, match] of Object.entries(expect.registers ?? {})) {
+    if (!matchesText(state.registers[name] ?? '', match)) return false;
+  }
+  if (expect.recording !== undefined && state.recordingRegister !== expect.recording) return false;
+  for (const [name, match] of Object.entries(expect.marks ?? {})) {
+    if (!matchesPosition(state.marks[name], match)) return false;
+  }
+  if (expect.message !== undefined && !matchesText(state.message, expect.message)) return false;
+  if (expect.output !== undefined && !(state.output && matchesText(state.output.title, expect.output))) return false;
+  if (expect.lastSearch !== undefined && !matchesText(state.lastSearch, expect.lastSearch)) return false;
+
+  const { viewport } = state;
+  if (expect.screenLine && cursor.line !== screenLine(viewport, lines.length, expect.screenLine, 1)) return false;
+  if (expect.scrolledTo && viewport.top !== topFor(viewport, cursor.line, expect.scrolledTo)) return false;
+
+  const relative = expect.changed !== undefined || expect.scrolled !== undefined || expect.cursorMoved || expect.before;
+  if (!relative) return true;
+  if (!prev) return false;
+
+  if (expect.changed !== undefined && (prev.lines.join('\n') !== lines.join('\n')) !== expect.changed) return false;
+  if (expect.scrolled !== undefined && !matchesScroll(state, prev, expect.scrolled)) return false;
+  if (expect.cursorMoved === 'down' && !(cursor.line > prev.cursor.line)) return false;
+  if (expect.cursorMoved === 'up' && !(cursor.line < prev.cursor.line)) return false;
+  return !expect.before || meetsExpectation(prev, null, expect.before);
+}
+
+/**
+ * Everything wrong with a lesson file, so authors get one report instead of
+ * a lesson that never completes. An empty list means the file can be loaded.
+ */
+export function checkLessonFile(data: unknown, file: string): LessonIssue[] {
+  const issues: LessonIssue[] = [];
+  const report = (path: string, message: string) => issues.push({ file, path, message });
+
+  if (!isObject(data)) {
+    report('', 'a lesson must be a JSON object');
+    return issues;
+  }
+
+  checkKeys(data, '', ['id', 'title', 'description', 'keys', 'icon', 'steps'], report);
+  for (const key of ['id', 'title', 'description', 'keys', 'icon']) {
+    if (typeof data[key] !== 'string' || !data[key]) report(key, 'must be a non-empty string');
+  }
+
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    report('steps', 'must be a non-empty list of steps');
+    return issues;
+  }
+
+  data.steps.forEach((step: unknown, index: number) => {
+    const path = `steps[${index}]`;
+    if (!isObject(step)) {
+      report(path, 'must be an object');
+      return;
+    }
+
+    checkKeys(step, path, ['instruction', 'hint', 'buffer', 'cursor', 'allowedKeys', 'target', 'expect', 'solution', 'par'], report);
+    for (const key of ['instruction', 'hint']) {
+      if (typeof step[key] !== 'string' || !step[key]) report(`${path}.${key}`, 'must be a non-empty string');
+    }
+
+    if (step.buffer !== undefined && !isStringList(step.buffer, 1)) {
+      report(`${path}.buffer`, 'must be a non-empty list of strings');
+    } else if (step.buffer === undefined && index === 0) {
+      report(`${path}.buffer`, 'the first step needs a buffer to start from');
+    }
+
+    if (step.cursor !== undefined) {
+      const cursor = step.cursor;
+      if (!isObject(cursor) || !isCount(cursor.line) || !isCount(cursor.col)) {
+        report(`${path}.cursor`, 'must be { "line": n, "col": n } with whole numbers from 0');
+      } else if (Array.isArray(step.buffer) && (cursor.line >= step.buffer.length || cursor.col > Math.max(0, String(step.buffer[cursor.line]).length - 1))) {
+        report(`${path}.cursor`, 'is outside the buffer');
+      }
+    }
+
+    if (step.allowedKeys !== undefined && (typeof step.allowedKeys !== 'string' || !step.allowedKeys)) {
+      report(`${path}.allowedKeys`, 'must be a non-empty string of keys, such as "hjkl<Esc>"');
+    }
+
+    if (step.target !== undefined) {
+      checkTarget(step.target, `${path}.target`, report);
+    }
+    checkScoring(step, path, report);
+    if (step.expect === undefined && step.target === undefined) {
+      report(path, 'needs "expect", "target" or both to know when it is done');
+    } else if (step.expect !== undefined && !isObject(step.expect)) {
+      report(`${path}.expect`, 'must be an object');
+    } else if (step.expect !== undefined) {
+      checkExpectation(step.expect, `${path}.expect`, report);
+    }
+  });
+
+  return issues;
+}
+
+type Report = (path: string, message: string) => void;
+
+const EXPECTATION_KEYS: (keyof Expectation)[] = [
+  'buffer', 'lineCount', 'lines', 'everyLine', 'noLine', 'cursor', 'mode', 'registers', 'recording', 'marks',
+  'message', 'output', 'lastSearch', 'changed', 'scrolled', 'cursorMoved', 'screenLine', 'scrolledTo', 'before',
+];
+
+function checkExpectation(expect: Record<string, unknown>, path: string, report: Report): void {
+  checkKeys(expect, path, EXPECTATION_KEYS, report);
+  if (Object.keys(expect).length === 0) report(path, 'checks nothing, so the step would pass at once');
+
+  if (expect.buffer !== undefined && !isStringList(expect.buffer, 1)) report(`${path}.buffer`, 'must be a non-empty list of strings');
+  if (expect.lineCount !== undefined) checkNumberMatch(expect.lineCount, `${path}.lineCount`, report);
+
+  if (expect.lines !== undefined) {
+    checkRecord(expect.lines, `${path}.lines`, report, (key, value, itemPath) => {
+      if (!/^\d+$/.test(key)) report(itemPath, 'lines are named by their number, counting from 0');
+      checkTextMatch(value, itemPath, report);
+    });
+  }
+  for (const key of ['everyLine', 'noLine', 'message', 'output', 'lastSearch']) {
+    if (expect[key] !== undefined) checkTextMatch(expect[key], `${path}.${key}`, report);
+  }
+
+  if (expect.cursor !== undefined) checkPositionMatch(expect.cursor, `${path}.cursor`, report);
+  if (expect.mode !== undefined && !MODES.includes(expect.mode as VimMode)) {
+    report(`${path}.mode`, `must be one of ${MODES.join(', ')}`);
+  }
+  if (expect.registers !== undefined) {
+    checkRecord(expect.registers, `${path}.registers`, report, (_, value, itemPath) => checkTextMatch(value, itemPath, report));
+  }
+  if (expect.recording !== undefined && expect.recording !== null && typeof expect.recording !== 'string') {
+    report(`${path}.recording`, 'must be a register name or null');
+  }
+  if (expect.marks !== undefined) {
+    checkRecord(expect.marks, `${path}.marks`, report, (_, value, itemPath) => checkPositionMatch(value, itemPath, report));
+  }
+
+  if (expect.changed !== undefined && typeof expect.changed !== 'boolean') report(`${path}.changed`, 'must be true or false');
+  const scrolled = expect.scrolled;
+  if (scrolled !== undefined && !['up', 'down', 'page-up', 'page-down'].includes(scrolled as string) && !Number.isInteger(scrolled)) {
+    report(`${path}.scrolled`, 'must be "up", "down", "page-up", "page-down" or a number of lines');
+  }
+  if (expect.cursorMoved !== undefined && !['up', 'down'].includes(expect.cursorMoved as string)) {
+    report(`${path}.cursorMoved`, 'must be "up" or "down"');
+  }
+  if (expect.screenLine !== undefined && !['H', 'M', 'L'].includes(expect.screenLine as string)) {
+    report(`${path}.screenLine`, 'must be "H", "M" or "L"');
+  }
+  if (expect.scrolledTo !== undefined && !['top', 'middle', 'bottom'].includes(expect.scrolledTo as string)) {
+    report(`${path}.scrolledTo`, 'must be "top", "middle" or "bottom"');
+  }
+
+  if (expect.before !== undefined) {
+    if (!isObject(expect.before)) {
+      report(`${path}.before`, 'must be an object');
+    } else {
+      checkExpectation(expect.before, `${path}.before`, report);
+      for (const key of ['changed', 'scrolled', 'cursorMoved', 'before']) {
+        if (expect.before[key] !== undefined) report(`${path}.before.${key}`, 'cannot look further back than the last key');
+      }
+    }
+  }
+}
+
+function checkScoring(step: Record<string, unknown>, path: string, report: Report): void {
+  const { solution, par, allowedKeys } = step;
+  if (par !== undefined && !(isCount(par) && par > 0)) {
+    report(`${path}.par`, 'must be a whole number of keys from 1');
+  }
+  if (solution === undefined) return;
+  if (typeof solution !== 'string' || !solution) {
+    report(`${path}.solution`, 'must be a non-empty string of keys, such as "dw"');
+    return;
+  }
+
+  const keys = notationToTokens(solution);
+  if (isCount(par) && par < keys.length) {
+    report(`${path}.par`, `is below the ${keys.length} keys of the solution`);
+  }
+  if (typeof allowedKeys === 'string') {
+    const allowed = notationToTokens(allowedKeys);
+    const blocked = keys.find((key) => !allowed.includes(key));
+    if (blocked) report(`${path}.solution`, `uses "${blocked}", which allowedKeys does not take`);
+  }
+}
+
+function checkTarget(target: unknown, path: string, report: Report): void {
+  if (!isObject(target)) {
+    report(path, 'must be an object with a "buffer"');
+    return;
+  }
+
+  checkKeys(target, path, ['buffer', 'cursor'], report);
+  if (!isStringList(target.buffer, 1)) {
+    report(`${path}.buffer`, 'must be a non-empty list of strings');
+    return;
+  }
+
+  const cursor = target.cursor;
+  if (cursor === undefined) return;
+  if (!isObject(cursor) || !isCount(cursor.line) || !isCount(cursor.col)) {
+    report(`${path}.cursor`, 'must be { "line": n, "col": n } with whole numbers from 0');
+  } else if (cursor.line >= target.buffer.length || cursor.col > Math.max(0, target.buffer[cursor.line].length - 1)) {
+    report(`${path}.cursor`, 'is outside the target buffer');
+  }
+}
+
+function checkTextMatch(value: unknown, path: string, report: Report): void {
+  if (typeof value === 'string') return;
+  if (!isObject(value)) {
+    report(path, 'must be a string or an object of text tests');
+    return;
+  }
+
+  checkKeys(value, path, ['equals', 'contains', 'startsWith', 'endsWith', 'matches', 'length', 'not'], report);
+  for (const key of ['equals', 'contains', 'startsWith', 'endsWith', 'matches']) {
+    if (value[key] !== undefined && typeof value[key] !== 'string') report(`${path}.${key}`, 'must be a string');
+  }
+  if (typeof value.matches === 'string') {
+    try {
+      new RegExp(value.matches);
+    } catch {
+      report(`${path}.matches`, 'is not a valid regular expression');
+    }
+  }
+  if (value.length !== undefined) checkNumberMatch(value.length, `${path}.length`, report);
+  if (value.not !== undefined) checkTextMatch(value.not, `${path}.not`, report);
+}
+
+function checkNumberMatch(value: unknown, path: string, report: Report): void {
+  if (Number.isInteger(value)) return;
+  if (!isObject(value) || Object.keys(value).length === 0) {
+    report(path, 'must be a whole number or { "min": n, "max": n }');
+    return;
+  }
+  checkKeys(value, path, ['min', 'max'], report);
+  for (const key of ['min', 'max']) {
+    if (value[key] !== undefined && !Number.isInteger(value[key])) report(`${path}.${key}`, 'must be a whole number');
+  }
+}
+
+function checkPositionMatch(value: unknown, path: string, report: Report): void {
+  if (!isObject(value)) {
+    report(path, 'must be an object with "line" and/or "col"');
+    return;
+  }
+  checkKeys(value, path, ['line', 'col'], report);
+  for (const key of ['line', 'col']) {
+    if (value[key] !== undefined) checkNumberMatch(value[key], `${path}.${key}`, report);
+  }
+}
+
+function checkRecord(
+  value: unknown,
+  path: string,
+  report: Report,
+  checkItem: (key: string, item: unknown, itemPath: string) => void
+): void {
+  if (!isObject(value)) {
+    report(path, 'must be an object');
+    return;
+  }
+  for (const [key, item] of Object.entries(value)) {
+    checkItem(key, item, `${path}.${key}`);
+  }
+}
+
+// Misspelled keys would otherwise be ignored without a word
+function checkKeys(value: Record<string, unknown>, path: string, known: readonly string[], report: Report): void {
+  for (const key of Object.keys(value)) {
+    if (!known.includes(key)) report(path ? `${path}.${key}` : key, 'is not a known field');
+  }
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown, minLength: number): value is string[] {
+  return Array.isArray(value) && value.length >= minLength && value.every((item) => typeof item === 'string');
+}
+
+export function isCount(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+function compileStep(step: StepFile): LessonStep {
+  const { expect } = step;
+  const target = step.target && { lines: step.target.buffer, cursor: step.target.cursor };
+  const solution = step.solution ? notationToTokens(step.solution) : undefined;
+  return {
+    instruction: step.instruction,
+    hint: step.hint,
+    initialContent: step.buffer,
+    initialCursor: step.cursor,
+    allowedKeys: step.allowedKeys ? notationToTokens(step.allowedKeys) : undefined,
+    target,
+    solution,
+    par: step.par ?? solution?.length,
+    validate: (state, prev) =>
+      (!target || meetsTarget(state, target)) && (!expect || meetsExpectation(state, prev, expect)),
+  };
+}
+
+/**
+ * Turn lesson files into lessons, in the order given. Files with issues, or
+ * with an id an earlier file already used, are left out and reported.
+ */
+export function loadLessons(files: { file: string; data: unknown }[]): { lessons: Lesson[]; issues: LessonIssue[] } {
+  const lessons: Lesson[] = [];
+  const issues: LessonIssue[] = [];
+
+  for (const { file, data } of files) {
+    const found = checkLessonFile(data, file);
+    const lesson = data as LessonFile;
+    if (found.length === 0 && lessons.some((loaded) => loaded.id === lesson.id)) {
+      found.push({ file, path: 'id', message: `"${lesson.id}" is already used by another lesson` });
+    }
+    if (found.length > 0) {
+      issues.push(...found);
+      continue;
+    }
+
+    lessons.push({ ...lesson, steps: lesson.steps.map(compileStep) });
+  }
+
+  return { lessons, issues };
+}
+
+// One line per issue: `basic-movement.json: steps[0].expect.cursor.line: must be ...`
+export function formatIssues(issues: LessonIssue[]): string[] {
+  return issues.map(({ file, path, message }) => `${file}: ${path ? `${path}: ` : ''}${message}`);
+}
@@ -1,14 +1,84 @@
 import { VimEngine } from './vim-engine';
-import { lessons, referenceCategories } from './lessons';
-import { EditorState, Lesson } from './types';
+import { fetchLessons, referenceCategories } from './lessons';
+import { userMarksByLine } from './marks';
+import { lineChanges, lineNumberLabel } from './gutter';
+import { diffBuffers } from './buffer-diff';
+import {
+  CHALLENGES,
+  Challenge,
+  ChallengeProgress,
+  addRun,
+  challengeFromHash,
+  challengeHash,
+  challengeId,
+  checkChallenge,
+  restoreChallengeProgress,
+} from './challenges';
+import { keyToken, tokensToNotation } from './key-notation';
+import { isInSelection, isVisualMode } from './visual';
+import { visibleLines } from './viewport';
+import { VimOptions, restoreOptions } from './options';
+import { KeyScore, LessonScore, RATING_LABELS, bestScore, rateKeys, restoreScores, scoreLesson } from './scoring';
+import { Replay, ReplayFrame, ReplayTake, parseReplay, replayFrames, startTake } from './recording';
+import { EditorState, Lesson, StepTarget } from './types';
+import { LessonIssue } from './lesson-format';
+
+// Pressed on their own these are not keystrokes, for allowedKeys or for scoring
+const MODIFIER_KEYS = ['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'];
+
+type EditorType = 'lesson' | 'sandbox' | 'challenge';
+
+// Pauses longer than this are cut short when a replay plays
+const MAX_REPLAY_PAUSE = 2000;
+
+interface ReplayPlayer {
+  replay: Replay;
+  frames: ReplayFrame[];
+  index: number;
+  timer: number | null;
+  // The sandbox's own change baseline, put back when the replay closes
+  baseline: string[];
+}
+
+// What one editor renders into
+interface EditorElements {
+  editorEl: HTMLElement;
+  lineNumbersEl: HTMLElement;
+  modeIndicatorEl: HTMLElement;
+  commandDisplayEl: HTMLElement;
+  cursorPosEl: HTMLElement;
+  outputPanelEl: HTMLElement;
+}
 
 class VimTrainerApp {
   private lessonEngine: VimEngine;
   private sandboxEngine: VimEngine;
+  private challengeEngine: VimEngine;
+  // Fetched when the app starts; empty until then
+  private lessons: Lesson[] = [];
+  // Lesson files that could not be loaded, listed under the lessons that could
+  private lessonIssues: LessonIssue[] = [];
   private currentLesson: Lesson | null = null;
   private currentStepIndex: number = 0;
   private completedLessons: Set<string> = new Set();
+  // Fewest keystrokes each lesson was finished in
+  private lessonScores: Record<string, LessonScore> = {};
+  // Keys pressed in each step of the lesson in progress, as tokens
+  private stepKeys: string[][] = [];
   private prevState: EditorState | null = null;
+  // Buffers as the current step (or the sandbox, or the challenge) started, for the change signs in the gutter
+  private changeBaselines: Record<EditorType, string[]>;
+  private currentChallenge: Challenge | null = null;
+  // Keys pressed in the current attempt; the editor takes no more once it is solved
+  private challengeKeys: string[] = [];
+  private challengeSolved: boolean = false;
+  private challengeProgress: ChallengeProgress = { shared: [], runs: {} };
+  // Key logs to export: one take per step of the lesson in progress, and the sandbox since it was last loaded.
+  // Options set in another editor start a new take
+  private lessonTakes: ReplayTake[] = [];
+  private sandboxTakes: ReplayTake[] = [];
+  // A replay being watched in the sandbox, which is read-only meanwhile
+  private player: ReplayPlayer | null = null;
   private isPremium: boolean = false;
   private freeLesonLimit: number = 3;
 
@@ -22,12 +92,17 @@ class VimTrainerApp {
   private commandDisplayEl!: HTMLElement;
   private keyHintEl!: HTMLElement;
   private cursorPosEl!: HTMLElement;
+  private outputPanelEl!: HTMLElement;
   private taskInstructionEl!: HTMLElement;
   private taskStepEl!: HTMLElement;
+  private taskDiffEl!: HTMLElement;
   private progressFillEl!: HTMLElement;
   private progressTextEl!: HTMLElement;
   private successModal!: HTMLElement;
   private modalMessageEl!: HTMLElement;
+  private modalScoreEl!: HTMLElement;
+  private modalSolutionEl!: HTMLElement;
+  private taskStatusEl!: HTMLElement;
 
   // Sandbox elements
   private sandboxEditorEl!: HTMLElement;
@@ -35,6 +110,33 @@ class VimTrainerApp {
   private sandboxModeIndicatorEl!: HTMLElement;
   private sandboxCommandDisplayEl!: HTMLElement;
   private sandboxCursorPosEl!: HTMLElement;
+  private sandboxOutputPanelEl!: HTMLElement;
+  private sandboxStatusEl!: HTMLElement;
+  private replayBarEl!: HTMLElement;
+  private replayTitleEl!: HTMLElement;
+  private replayPositionEl!: HTMLElement;
+  private replayKeysEl!: HTMLElement;
+  private replayPlayBtn!: HTMLElement;
+  private replaySpeedEl!: HTMLSelectElement;
+  private replayFileInput!: HTMLInputElement;
+
+  // Challenge elements
+  private challengeListEl!: HTMLElement;
+  private challengeTitleEl!: HTMLElement;
+  private challengeDescEl!: HTMLElement;
+  private challengeDiffEl!: HTMLElement;
+  private challengeKeysEl!: HTMLElement;
+  private challengeStatusEl!: HTMLElement;
+  private challengeLeaderboardEl!: HTMLElement;
+  private challengeModal!: HTMLElement;
+  private challengeFormEl!: HTMLFormElement;
+  private challengeFormErrorEl!: HTMLElement;
+  private challengeEditorEl!: HTMLElement;
+  private challengeLineNumbersEl!: HTMLElement;
+  private challengeModeIndicatorEl!: HTMLElement;
+  private challengeCommandDisplayEl!: HTMLElement;
+  private challengeCursorPosEl!: HTMLElement;
+  private challengeOutputPanelEl!: HTMLElement;
 
   constructor() {
     this.lessonEngine = new VimEngine(['Welcome to Vim Trainer!', '', 'Select a lesson from the sidebar to begin.']);
@@ -50,24 +152,93 @@ class VimTrainerApp {
       '',
       '// Try any Vim commands here...',
     ]);
+    this.sandboxEngine.setFileName('sandbox.js');
+    this.challengeEngine = new VimEngine(['Pick a challenge from the sidebar.']);
+    this.challengeEngine.setFileName('challenge.txt');
+    this.changeBaselines = {
+      lesson: [...this.lessonEngine.getState().lines],
+      sandbox: [...this.sandboxEngine.getState().lines],
+      challenge: [...this.challengeEngine.getState().lines],
+    };
 
     this.loadProgress();
+    this.loadChallengeProgress();
+    this.loadSettings();
     this.checkPremiumStatus();
+    // After the saved settings, which the first take starts with
+    this.sandboxTakes = [startTake('Sandbox', this.sandboxEngine, true)];
   }
 
   init(): void {
     this.cacheElements();
     this.setupEventListeners();
-    this.renderLessonList();
+    this.loadLessons();
     this.renderReference();
-    this.updateProgress();
+    this.renderChallengeList();
+    this.renderLeaderboard();
 
     this.lessonEngine.onChange((state) => this.renderEditor(state, 'lesson'));
-    this.sandboxEngine.onChange((state) => this.renderEditor(state, 'sandbox'));
+    this.sandboxEngine.onChange((state) => {
+      if (!this.player) this.renderEditor(state, 'sandbox');
+    });
+    this.challengeEngine.onChange((state) => this.renderEditor(state, 'challenge'));
+
+    // Every key typed goes into the take it was typed in
+    this.lessonEngine.onKeyLog((entry) => this.lessonTakes[this.lessonTakes.length - 1]?.events.push(entry));
+    this.sandboxEngine.onKeyLog((entry) => this.sandboxTakes[this.sandboxTakes.length - 1].events.push(entry));
+
+    // A :set in any editor applies to all of them and is kept for the next visit
+    for (const engine of this.engines()) {
+      engine.onOptionsSet((options) => this.saveSettings(options, engine));
+    }
 
     // Initial render
     this.renderEditor(this.lessonEngine.getState(), 'lesson');
     this.renderEditor(this.sandboxEngine.getState(), 'sandbox');
+    this.renderEditor(this.challengeEngine.getState(), 'challenge');
+
+    // A shared challenge link opens straight into the challenge
+    this.openChallengeFromHash();
+  }
+
+  private engines(): VimEngine[] {
+    return [this.lessonEngine, this.sandboxEngine, this.challengeEngine];
+  }
+
+  private engineFor(type: EditorType): VimEngine {
+    return type === 'lesson' ? this.lessonEngine : type === 'sandbox' ? this.sandboxEngine : this.challengeEngine;
+  }
+
+  private editorElements(type: EditorType): EditorElements {
+    switch (type) {
+      case 'lesson':
+        return {
+          editorEl: this.editorEl,
+          lineNumbersEl: this.lineNumbersEl,
+          modeIndicatorEl: this.modeIndicatorEl,
+          commandDisplayEl: this.commandDisplayEl,
+          cursorPosEl: this.cursorPosEl,
+          outputPanelEl: this.outputPanelEl,
+        };
+      case 'sandbox':
+        return {
+          editorEl: this.sandboxEditorEl,
+          lineNumbersEl: this.sandboxLineNumbersEl,
+          modeIndicatorEl: this.sandboxModeIndicatorEl,
+          commandDisplayEl: this.sandboxCommandDisplayEl,
+          cursorPosEl: this.sandboxCursorPosEl,
+          outputPanelEl: this.sandboxOutputPanelEl,
+        };
+      case 'challenge':
+        return {
+          editorEl: this.challengeEditorEl,
+          lineNumbersEl: this.challengeLineNumbersEl,
+          modeIndicatorEl: this.challengeModeIndicatorEl,
+          commandDisplayEl: this.challengeCommandDisplayEl,
+          cursorPosEl: this.challengeCursorPosEl,
+          outputPanelEl: this.challengeOutputPanelEl,
+        };
+    }
   }
 
   private cacheElements(): void {
@@ -80,18 +251,49 @@ class VimTrainerApp {
     this.commandDisplayEl = document.getElementById('command-display')!;
     this.keyHintEl = document.getElementById('key-hint')!;
     this.cursorPosEl = document.getElementById('cursor-pos')!;
+    this.outputPanelEl = document.getElementById('output-panel')!;
     this.taskInstructionEl = document.getElementById('task-instruction')!;
     this.taskStepEl = document.getElementById('task-step')!;
+    this.taskDiffEl = document.getElementById('task-diff')!;
     this.progressFillEl = document.getElementById('progress-fill')!;
     this.progressTextEl = document.getElementById('progress-text')!;
     this.successModal = document.getElementById('success-modal')!;
     this.modalMessageEl = document.getElementById('modal-message')!;
+    this.modalScoreEl = document.getElementById('modal-score')!;
+    this.modalSolutionEl = document.getElementById('modal-solution')!;
+    this.taskStatusEl = document.getElementById('task-status')!;
 
     this.sandboxEditorEl = document.getElementById('sandbox-editor')!;
     this.sandboxLineNumbersEl = document.getElementById('sandbox-line-numbers')!;
     this.sandboxModeIndicatorEl = document.getElementById('sandbox-mode-indicator')!;
     this.sandboxCommandDisplayEl = document.getElementById('sandbox-command-display')!;
     this.sandboxCursorPosEl = document.getElementById('sandbox-cursor-pos')!;
+    this.sandboxOutputPanelEl = document.getElementById('sandbox-output-panel')!;
+    this.sandboxStatusEl = document.getElementById('sandbox-status')!;
+    this.replayBarEl = document.getElementById('replay-bar')!;
+    this.replayTitleEl = document.getElementById('replay-title')!;
+    this.replayPositionEl = document.getElementById('replay-position')!;
+    this.replayKeysEl = document.getElementById('replay-keys')!;
+    this.replayPlayBtn = document.getElementById('replay-play-btn')!;
+    this.replaySpeedEl = document.getElementById('replay-speed') as HTMLSelectElement;
+    this.replayFileInput = document.getElementById('replay-file-input') as HTMLInputElement;
+
+    this.challengeListEl = document.getElementById('challenge-list')!;
+    this.challengeTitleEl = document.getElementById('challenge-title')!;
+    this.challengeDescEl = document.getElementById('challenge-description')!;
+    this.challengeDiffEl = document.getElementById('challenge-diff')!;
+    this.challengeKeysEl = document.getElementById('challenge-keys')!;
+    this.challengeStatusEl = document.getElementById('challenge-status')!;
+    this.challengeLeaderboardEl = document.getElementById('challenge-leaderboard')!;
+    this.challengeModal = document.getElementById('challenge-modal')!;
+    this.challengeFormEl = document.getElementById('challenge-form') as HTMLFormElement;
+    this.challengeFormErrorEl = document.getElementById('challenge-form-error')!;
+    this.challengeEditorEl = document.getElementById('challenge-editor')!;
+    this.challengeLineNumbersEl = document.getElementById('challenge-line-numbers')!;
+    this.challengeModeIndicatorEl = document.getElementById('challenge-mode-indicator')!;
+    this.challengeCommandDisplayEl = document.getElementById('challenge-command-display')!;
+    this.challengeCursorPosEl = document.getElementById('challenge-cursor-pos')!;
+    this.challengeOutputPanelEl = document.getElementById('challenge-output-panel')!;
   }
 
   private setupEventListeners(): void {
@@ -107,18 +309,63 @@ class VimTrainerApp {
     // Editor focus and keyboard
     this.editorEl.addEventListener('keydown', (e) => this.handleKeyDown(e, this.lessonEngine, 'lesson'));
     this.sandboxEditorEl.addEventListener('keydown', (e) => this.handleKeyDown(e, this.sandboxEngine, 'sandbox'));
+    this.challengeEditorEl.addEventListener('keydown', (e) => this.handleKeyDown(e, this.challengeEngine, 'challenge'));
 
     // Prevent default on editor to avoid issues
-    [this.editorEl, this.sandboxEditorEl].forEach((el) => {
+    [this.editorEl, this.sandboxEditorEl, this.challengeEditorEl].forEach((el) => {
       el.addEventListener('click', () => el.focus());
     });
 
+    // The engines scroll by the number of lines that fit in their editor
+    new ResizeObserver(() => this.fitViewport(this.editorEl, this.lessonEngine)).observe(this.editorEl);
+    new ResizeObserver(() => this.fitViewport(this.sandboxEditorEl, this.sandboxEngine)).observe(this.sandboxEditorEl);
+    new ResizeObserver(() => this.fitViewport(this.challengeEditorEl, this.challengeEngine)).observe(this.challengeEditorEl);
+
     // Hint button
     document.getElementById('btn-hint')?.addEventListener('click', () => this.showHint());
 
     // Next lesson button
     document.getElementById('next-lesson-btn')?.addEventListener('click', () => this.nextLesson());
 
+    // Solutions stay hidden until asked for
+    document.getElementById('reveal-solution-btn')?.addEventListener('click', () => {
+      this.modalSolutionEl.classList.toggle('active');
+    });
+
+    // Replays
+    document.getElementById('btn-export-replay')?.addEventListener('click', () => {
+      if (this.currentLesson) this.exportReplay(this.currentLesson.title, this.lessonTakes, this.lessonEngine);
+    });
+    document.getElementById('sandbox-export-btn')?.addEventListener('click', () => {
+      this.exportReplay('Sandbox', this.sandboxTakes, this.sandboxEngine);
+    });
+    document.getElementById('sandbox-import-btn')?.addEventListener('click', () => this.replayFileInput.click());
+    this.replayFileInput.addEventListener('change', () => this.importReplay());
+    document.getElementById('replay-first-btn')?.addEventListener('click', () => this.showReplayFrame(0));
+    document.getElementById('replay-back-btn')?.addEventListener('click', () => this.stepReplay(-1));
+    document.getElementById('replay-step-btn')?.addEventListener('click', () => this.stepReplay(1));
+    this.replayPlayBtn.addEventListener('click', () => this.toggleReplayPlayback());
+    document.getElementById('replay-edit-btn')?.addEventListener('click', () => this.editFromReplay());
+    document.getElementById('replay-close-btn')?.addEventListener('click', () => this.closeReplay());
+
+    // Challenges
+    document.getElementById('challenge-restart-btn')?.addEventListener('click', () => this.startChallenge());
+    document.getElementById('challenge-share-btn')?.addEventListener('click', () => this.shareChallenge());
+    document.getElementById('new-challenge-btn')?.addEventListener('click', () => this.showChallengeForm());
+    document.getElementById('cancel-challenge-btn')?.addEventListener('click', () => {
+      this.challengeModal.classList.remove('active');
+    });
+    this.challengeFormEl.addEventListener('submit', (e) => {
+      e.preventDefault();
+      this.createChallenge();
+    });
+    this.challengeModal.addEventListener('click', (e) => {
+      if (e.target === this.challengeModal) {
+        this.challengeModal.classList.remove('active');
+      }
+    });
+    window.addEventListener('hashchange', () => this.openChallengeFromHash());
+
     // Close modal on click outside
     this.successModal.addEventListener('click', (e) => {
       if (e.target === this.successModal) {
@@ -127,18 +374,50 @@ class VimTrainerApp {
     });
   }
 
-  private handleKeyDown(e: KeyboardEvent, engine: VimEngine, type: 'lesson' | 'sandbox'): void {
-    this.prevState = engine.getState();
+  private handleKeyDown(e: KeyboardEvent, engine: VimEngine, type: EditorType): void {
+    if (type === 'sandbox' && this.player) {
+      this.handleReplayKey(e);
+      return;
+    }
+    if ((type === 'lesson' && !this.isKeyAllowed(e)) || (type === 'challenge' && this.challengeSolved)) {
+      e.preventDefault();
+      return;
+    }
+
+    if (type === 'lesson' && this.currentLesson && !MODIFIER_KEYS.includes(e.key)) {
+      (this.stepKeys[this.currentStepIndex] ??= []).push(keyToken(e.key, e.ctrlKey));
+      this.renderKeyCount();
+    }
+    if (type === 'challenge' && this.currentChallenge && !MODIFIER_KEYS.includes(e.key)) {
+      this.challengeKeys.push(keyToken(e.key, e.ctrlKey));
+      this.renderChallengeKeys();
+    }
+
+    // The engine edits its lines in place, so the state before the key needs its own copy
+    const before = engine.getState();
+    this.prevState = { ...before, lines: [...before.lines] };
 
     if (engine.handleKeyDown(e)) {
       e.preventDefault();
 
       if (type === 'lesson' && this.currentLesson) {
         this.checkStepCompletion();
+      } else if (type === 'challenge' && this.currentChallenge) {
+        this.checkChallenge();
       }
     }
   }
 
+  // Steps can limit the keys they take, like only hjkl while learning to move
+  private isKeyAllowed(e: KeyboardEvent): boolean {
+    const allowed = this.currentLesson?.steps[this.currentStepIndex]?.allowedKeys;
+    if (!allowed || MODIFIER_KEYS.includes(e.key)) return true;
+    if (allowed.includes(keyToken(e.key, e.ctrlKey))) return true;
+
+    this.keyHintEl.textContent = `🚫 This step only takes ${tokensToNotation(allowed)}`;
+    return false;
+  }
+
   private switchView(view: string): void {
     document.querySelectorAll('.nav-btn').forEach((btn) => {
       btn.classList.toggle('active', btn.getAttribute('data-view') === view);
@@ -153,11 +432,31 @@ class VimTrainerApp {
       setTimeout(() => this.editorEl.focus(), 100);
     } else if (view === 'sandbox') {
       setTimeout(() => this.sandboxEditorEl.focus(), 100);
+    } else if (view === 'challenges') {
+      setTimeout(() => this.challengeEditorEl.focus(), 100);
+    }
+
+    // The hash names the challenge on screen, so it only stays while challenges are
+    if (view !== 'challenges' && window.location.hash) {
+      window.history.replaceState({}, '', window.location.pathname + window.location.search);
     }
   }
 
+  private async loadLessons(): Promise<void> {
+    try {
+      ({ lessons: this.lessons, issues: this.lessonIssues } = await fetchLessons());
+    } catch (error) {
+      console.error('Lesson loading error:', error);
+      this.lessonListEl.innerHTML = '<div class="lesson-list-message">Lessons could not be loaded. Reload the page to try again.</div>';
+      return;
+    }
+
+    this.renderLessonList();
+    this.updateProgress();
+  }
+
   private renderLessonList(): void {
-    this.lessonListEl.innerHTML = lessons
+    this.lessonListEl.innerHTML = this.lessons
       .map((lesson, index) => {
         const isCompleted = this.completedLessons.has(lesson.id);
         const isLocked = !this.isPremium && index >= this.freeLesonLimit;
@@ -169,12 +468,12 @@ class VimTrainerApp {
             <div class="lesson-icon">${isLocked ? '🔒' : (isCompleted ? '✓' : lesson.icon)}</div>
             <div class="lesson-info">
               <div class="lesson-name">${lesson.title}${isLocked ? ' (Premium)' : ''}</div>
-              <div class="lesson-keys">${lesson.keys}</div>
+              <div class="lesson-keys">${lesson.keys}${this.scoreBadge(lesson.id)}</div>
             </div>
           </div>
         `;
       })
-      .join('');
+      .join('') + this.renderLessonIssues();
 
     this.lessonListEl.querySelectorAll('.lesson-item').forEach((item) => {
       item.addEventListener('click', (e) => {
@@ -193,11 +492,16 @@ class VimTrainerApp {
   }
 
   private selectLesson(lessonId: string): void {
-    const lesson = lessons.find((l) => l.id === lessonId);
+    const lesson = this.lessons.find((l) => l.id === lessonId);
     if (!lesson) return;
 
     this.currentLesson = lesson;
     this.currentStepIndex = 0;
+    this.stepKeys = [];
+    this.lessonTakes = [];
+    // Each lesson starts as if Vim had just been opened, which is where its replay starts too
+    this.lessonEngine.resetSession();
+    this.lessonEngine.setFileName(`${lesson.id}.txt`);
 
     // Update UI
     this.lessonTitleEl.textContent = lesson.title;
@@ -218,6 +522,12 @@ class VimTrainerApp {
     const step = this.currentLesson.steps[this.currentStepIndex];
     if (!step) return;
 
+    // Changes are marked from the start of each step
+    this.changeBaselines.lesson = [...(step.initialContent ?? this.lessonEngine.getState().lines)];
+
+    // A key left half-typed by the last step would swallow the first key of this one
+    this.lessonEngine.cancelPendingKeys();
+
     // Set content
     if (step.initialContent) {
       this.lessonEngine.setContent(step.initialContent);
@@ -230,8 +540,15 @@ class VimTrainerApp {
     this.taskInstructionEl.innerHTML = step.instruction;
     this.taskStepEl.textContent = `Step ${this.currentStepIndex + 1}/${this.currentLesson.steps.length}`;
     this.keyHintEl.textContent = '';
+    this.stepKeys[this.currentStepIndex] = [];
+    this.renderKeyCount();
 
     this.prevState = this.lessonEngine.getState();
+    // The first take always loads its buffer, as the engine held whatever came before the lesson
+    const newBuffer = this.lessonTakes.length === 0 || !!step.initialContent;
+    this.lessonTakes.push(startTake(`Step ${this.currentStepIndex + 1}`, this.lessonEngine, newBuffer));
+    this.renderEditor(this.prevState, 'lesson');
+    this.renderTargetDiff(this.taskDiffEl, this.prevState, step.target);
   }
 
   private checkStepCompletion(): void {
@@ -239,8 +556,10 @@ class VimTrainerApp {
 
     const step = this.currentLesson.steps[this.currentStepIndex];
     const currentState = this.lessonEngine.getState();
+    this.renderTargetDiff(this.taskDiffEl, currentState, step.target);
 
     if (step.validate(currentState, this.prevState)) {
+      this.renderKeyCount(true);
       this.editorEl.classList.add('highlight-success');
       setTimeout(() => this.editorEl.classList.remove('highlight-success'), 500);
 
@@ -257,27 +576,94 @@ class VimTrainerApp {
     if (!this.currentLesson) return;
 
     this.completedLessons.add(this.currentLesson.id);
+    const score = this.scoreCurrentLesson();
+    if (score) {
+      this.lessonScores[this.currentLesson.id] = bestScore(this.lessonScores[this.currentLesson.id], score);
+    }
     this.saveProgress();
     this.updateProgress();
     this.renderLessonList();
 
-    const lessonIndex = lessons.findIndex((l) => l.id === this.currentLesson?.id);
-    const nextLesson = lessons[lessonIndex + 1];
+    const lessonIndex = this.lessons.findIndex((l) => l.id === this.currentLesson?.id);
+    const nextLesson = this.lessons[lessonIndex + 1];
 
     this.modalMessageEl.textContent = nextLesson
       ? `Ready for "${nextLesson.title}"?`
       : 'You\'ve completed all lessons!';
+    this.renderLessonScore(score);
 
     this.successModal.classList.add('active');
   }
 
+  private scoreCurrentLesson(): LessonScore | null {
+    if (!this.currentLesson) return null;
+
+    const scored: KeyScore[] = [];
+    this.currentLesson.steps.forEach((step, index) => {
+      if (step.par === undefined) return;
+      const keys = this.stepKeys[index]?.length ?? 0;
+      scored.push({ keys, par: step.par, best: step.solution?.length ?? step.par });
+    });
+    return scoreLesson(scored);
+  }
+
+  // The score, and each step's solution next to the keys actually pressed
+  private renderLessonScore(score: LessonScore | null): void {
+    const steps = this.currentLesson?.steps ?? [];
+    const best = this.currentLesson && this.lessonScores[this.currentLesson.id];
+
+    this.modalScoreEl.innerHTML = score
+      ? `<span class="score-rating ${score.rating}">${RATING_LABELS[score.rating]}</span>` +
+        `<span>${score.keys} keystrokes · par ${score.par} · optimal ${score.best}</span>` +
+        (best && best.keys < score.keys ? `<span class="score-best">Your best: ${best.keys}</span>` : '')
+      : '';
+
+    this.modalSolutionEl.classList.remove('active');
+    this.modalSolutionEl.innerHTML = steps
+      .map((step, index) => {
+        if (!step.solution) return '';
+        const pressed = this.stepKeys[index] ?? [];
+        return `
+          <div class="solution-step">
+            <span class="solution-index">${index + 1}</span>
+            <kbd class="solution-keys">${this.escapeHtml(tokensToNotation(step.solution))}</kbd>
+            <span class="solution-yours">you: ${this.escapeHtml(tokensToNotation(pressed)) || '—'} (${pressed.length})</span>
+          </div>
+        `;
+      })
+      .join('');
+    document.getElementById('reveal-solution-btn')?.classList.toggle('hidden', !steps.some((step) => step.solution));
+  }
+
+  // Keystrokes so far against par; once the step is done, how it went
+  private renderKeyCount(done = false): void {
+    const step = this.currentLesson?.steps[this.currentStepIndex];
+    if (!step || step.par === undefined) {
+      this.taskStatusEl.textContent = '';
+      this.taskStatusEl.className = '';
+      return;
+    }
+
+    const keys = this.stepKeys[this.currentStepIndex]?.length ?? 0;
+    const rating = rateKeys({ keys, par: step.par, best: step.solution?.length ?? step.par });
+    this.taskStatusEl.textContent = done
+      ? `✓ ${keys} keys · par ${step.par} · ${RATING_LABELS[rating]}`
+      : `${keys} keys · par ${step.par}`;
+    this.taskStatusEl.className = done ? `score-rating ${rating}` : keys > step.par ? 'score-rating over-par' : '';
+  }
+
+  private scoreBadge(lessonId: string): string {
+    const score = this.lessonScores[lessonId];
+    return score ? ` <span class="lesson-score ${score.rating}" title="Fewest keystrokes">⛳ ${score.keys}/${score.par}</span>` : '';
+  }
+
   private nextLesson(): void {
     this.successModal.classList.remove('active');
 
     if (!this.currentLesson) return;
 
-    const currentIndex = lessons.findIndex((l) => l.id === this.currentLesson?.id);
-    const nextLesson = lessons[currentIndex + 1];
+    const currentIndex = this.lessons.findIndex((l) => l.id === this.currentLesson?.id);
+    const nextLesson = this.lessons[currentIndex + 1];
 
     if (nextLesson) {
       if (!this.isPremium && currentIndex + 1 >= this.freeLesonLimit) {
@@ -288,6 +674,406 @@ class VimTrainerApp {
     }
   }
 
+  // Rows of the buffer against the step's target, marked +, - or ~ as in vimgolf
+  private renderTargetDiff(diffEl: HTMLElement, state: EditorState, target: StepTarget | undefined): void {
+    diffEl.classList.toggle('active', !!target);
+    if (!target) {
+      diffEl.innerHTML = '';
+      return;
+    }
+
+    const rows = diffBuffers(state.lines, target.lines);
+    const signs = { same: ' ', missing: '+', extra: '-', changed: '~' };
+    const html = rows.map((row) => {
+      const text = row.segments
+        .map((segment) => {
+          const escaped = this.escapeHtml(segment.text) || (segment.kind === 'same' ? '' : '⏎');
+          return segment.kind === 'same' ? escaped : `<span class="diff-${segment.kind}">${escaped}</span>`;
+        })
+        .join('');
+      return `<div class="diff-line"><span class="diff-sign">${signs[row.kind]}</span>${text}</div>`;
+    });
+
+    const bufferDone = rows.every((row) => row.kind === 'same');
+    const { cursor } = target;
+    const cursorDone = !cursor || (state.cursor.line === cursor.line && state.cursor.col === cursor.col);
+    const status = !bufferDone
+      ? `${rows.filter((row) => row.kind !== 'same').length} line(s) still differ from the target`
+      : cursorDone
+        ? 'Buffer matches the target'
+        : `Buffer matches — now put the cursor on Ln ${cursor.line + 1}, Col ${cursor.col + 1}`;
+    html.push(`<div class="diff-status ${bufferDone && cursorDone ? 'done' : ''}">${status}</div>`);
+
+    diffEl.innerHTML = html.join('');
+  }
+
+  private allChallenges(): Challenge[] {
+    return [...CHALLENGES, ...this.challengeProgress.shared];
+  }
+
+  private renderChallengeList(): void {
+    const shared = new Set(this.challengeProgress.shared);
+    this.challengeListEl.innerHTML = this.allChallenges()
+      .map((challenge) => {
+        const id = challengeId(challenge);
+        const best = this.challengeProgress.runs[id]?.[0];
+        const details = [challenge.par ? `par ${challenge.par}` : '', best ? `best ${best.keys}` : '']
+          .filter(Boolean)
+          .join(' · ');
+
+        return `
+          <div class="lesson-item ${best ? 'completed' : ''}" data-challenge-id="${id}">
+            <div class="lesson-icon">${best ? '✓' : shared.has(challenge) ? '🔗' : '⛳'}</div>
+            <div class="lesson-info">
+              <div class="lesson-name">${this.escapeHtml(challenge.title)}</div>
+              <div class="lesson-keys">${details || 'unsolved'}</div>
+            </div>
+          </div>
+        `;
+      })
+      .join('');
+
+    this.challengeListEl.querySelectorAll('.lesson-item').forEach((item) => {
+      item.classList.toggle('active', !!this.currentChallenge && item.getAttribute('data-challenge-id') === challengeId(this.currentChallenge));
+      item.addEventListener('click', (e) => {
+        this.selectChallenge((e.currentTarget as HTMLElement).dataset.challengeId!);
+      });
+    });
+  }
+
+  private selectChallenge(id: string): void {
+    const challenge = this.allChallenges().find((c) => challengeId(c) === id);
+    if (!challenge) return;
+
+    this.currentChallenge = challenge;
+    window.history.replaceState({}, '', challengeHash(challenge));
+    this.challengeTitleEl.textContent = challenge.title;
+    this.challengeDescEl.textContent = challenge.description || 'Turn the start buffer into the target in as few keystrokes as you can';
+    this.renderChallengeList();
+    this.startChallenge();
+  }
+
+  // Every attempt starts from a fresh buffer with nothing left over from the last one
+  private startChallenge(): void {
+    const challenge = this.currentChallenge;
+    if (!challenge) return;
+
+    this.challengeKeys = [];
+    this.challengeSolved = false;
+    this.changeBaselines.challenge = [...challenge.start];
+    this.challengeEngine.resetSession();
+    this.challengeEngine.setContent(challenge.start);
+
+    this.challengeStatusEl.textContent = '';
+    this.challengeStatusEl.className = '';
+    this.renderChallengeKeys();
+    this.renderTargetDiff(this.challengeDiffEl, this.challengeEngine.getState(), { lines: challenge.target });
+    this.renderLeaderboard();
+    this.challengeEditorEl.focus();
+  }
+
+  // Solved when the buffer is the target and Vim is back in Normal mode
+  private checkChallenge(): void {
+    const challenge = this.currentChallenge;
+    if (!challenge) return;
+
+    const state = this.challengeEngine.getState();
+    this.renderTargetDiff(this.challengeDiffEl, state, { lines: challenge.target });
+    if (state.mode !== 'normal' || state.lines.join('\n') !== challenge.target.join('\n')) return;
+
+    this.challengeSolved = true;
+    const id = challengeId(challenge);
+    const previousBest = this.challengeProgress.runs[id]?.[0];
+    const run = { keys: this.challengeKeys.length, sequence: tokensToNotation(this.challengeKeys), date: Date.now() };
+    const { runs, place } = addRun(this.challengeProgress.runs[id] ?? [], run);
+    this.challengeProgress.runs[id] = runs;
+    this.saveChallengeProgress();
+
+    this.challengeStatusEl.textContent = place === 1
+      ? `✓ Solved in ${run.keys} — ${previousBest ? 'new personal best!' : 'first solve!'}`
+      : `✓ Solved in ${run.keys} (best ${previousBest?.keys}) — Restart to try again`;
+    this.challengeStatusEl.className = 'solved';
+    this.challengeEditorEl.classList.add('highlight-success');
+    setTimeout(() => this.challengeEditorEl.classList.remove('highlight-success'), 500);
+
+    this.renderLeaderboard(run);
+    this.renderChallengeList();
+  }
+
+  private renderChallengeKeys(): void {
+    const par = this.currentChallenge?.par;
+    const keys = this.challengeKeys.length;
+    this.challengeKeysEl.textContent = this.currentChallenge ? `${keys} keystrokes${par ? ` · par ${par}` : ''}` : '';
+    this.challengeKeysEl.classList.toggle('over-par', !!par && keys > par);
+  }
+
+  // The best runs of the current challenge, with the one just finished picked out
+  private renderLeaderboard(latest?: { date: number }): void {
+    const runs = this.currentChallenge ? this.challengeProgress.runs[challengeId(this.currentChallenge)] ?? [] : [];
+    if (runs.length === 0) {
+      this.challengeLeaderboardEl.innerHTML = `<li class="leaderboard-empty">${this.currentChallenge ? 'No solves yet' : 'Pick a challenge'}</li>`;
+      return;
+    }
+
+    this.challengeLeaderboardEl.innerHTML = runs
+      .map((run) => `
+        <li class="leaderboard-entry ${run.date === latest?.date ? 'latest' : ''}" title="${new Date(run.date).toLocaleString()}">
+          <span class="leaderboard-keys">${run.keys}</span>
+          <span class="leaderboard-sequence">${this.escapeHtml(run.sequence)}</span>
+        </li>
+      `)
+      .join('');
+  }
+
+  private shareChallenge(): void {
+    if (!this.currentChallenge) return;
+
+    const url = window.location.origin + window.location.pathname + challengeHash(this.currentChallenge);
+    // The clipboard is only there on secure pages; elsewhere the link is shown to copy by hand
+    (navigator.clipboard?.writeText(url) ?? Promise.reject()).then(
+      () => {
+        this.challengeStatusEl.textContent = 'Link copied';
+        this.challengeStatusEl.className = '';
+      },
+      () => window.prompt('Copy this link to share the challenge', url)
+    );
+  }
+
+  // New challenges start from what is in the sandbox
+  private showChallengeForm(): void {
+    const lines = this.sandboxEngine.getState().lines.join('\n');
+    this.challengeFormEl.reset();
+    (this.challengeFormEl.elements.namedItem('start') as HTMLTextAreaElement).value = lines;
+    (this.challengeFormEl.elements.namedItem('target') as HTMLTextAreaElement).value = lines;
+    this.challengeFormErrorEl.textContent = '';
+    this.challengeModal.classList.add('active');
+  }
+
+  private createChallenge(): void {
+    const form = new FormData(this.challengeFormEl);
+    const text = (name: string) => String(form.get(name) ?? '');
+    const result = checkChallenge({
+      title: text('title'),
+      description: text('description'),
+      start: text('start').split('\n'),
+      target: text('target').split('\n'),
+      par: text('par') ? Number(text('par')) : undefined,
+    });
+    if (typeof result === 'string') {
+      this.challengeFormErrorEl.textContent = result;
+      return;
+    }
+
+    this.challengeModal.classList.remove('active');
+    this.addSharedChallenge(result);
+    this.selectChallenge(challengeId(result));
+  }
+
+  private openChallengeFromHash(): void {
+    const challenge = challengeFromHash(window.location.hash);
+    if (!challenge) return;
+
+    this.addSharedChallenge(challenge);
+    this.switchView('challenges');
+    this.selectChallenge(challengeId(challenge));
+  }
+
+  // Challenges from links are kept, unless they are one already in the list
+  private addSharedChallenge(challenge: Challenge): void {
+    const id = challengeId(challenge);
+    if (this.allChallenges().some((c) => challengeId(c) === id)) return;
+
+    this.challengeProgress.shared.push(challenge);
+    this.saveChallengeProgress();
+    this.renderChallengeList();
+  }
+
+  private exportReplay(title: string, takes: ReplayTake[], engine: VimEngine): void {
+    const replay: Replay = { version: 2, title, viewportHeight: engine.getState().viewport.height, takes };
+    const url = URL.createObjectURL(new Blob([JSON.stringify(replay, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'vim'}-replay.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  private importReplay(): void {
+    const file = this.replayFileInput.files?.[0];
+    // Cleared so picking the same file again still fires a change
+    this.replayFileInput.value = '';
+    if (!file) return;
+
+    file
+      .text()
+      .then((text) => {
+        const result = parseReplay(JSON.parse(text));
+        if (typeof result === 'string') {
+          this.setSandboxStatus(`Could not import the replay: ${result}`, true);
+          return;
+        }
+        this.openReplay(result);
+      })
+      .catch((error) => {
+        console.error('Replay import error:', error);
+        const reason = error instanceof SyntaxError ? `${file.name} is not JSON` : `${file.name} could not be played`;
+        this.setSandboxStatus(`Could not import the replay: ${reason}`, true);
+      });
+  }
+
+  private setSandboxStatus(message: string, warning = false): void {
+    this.sandboxStatusEl.textContent = message;
+    this.sandboxStatusEl.classList.toggle('warning', warning);
+  }
+
+  private openReplay(replay: Replay): void {
+    this.stopReplayPlayback();
+    this.player = {
+      replay,
+      frames: replayFrames(replay),
+      index: 0,
+      timer: null,
+      baseline: this.player?.baseline ?? this.changeBaselines.sandbox,
+    };
+    this.replayTitleEl.textContent = replay.title;
+    this.replayBarEl.classList.add('active');
+    this.sandboxEditorEl.classList.add('read-only');
+    this.showReplayFrame(0);
+    this.sandboxEditorEl.focus();
+  }
+
+  // While a replay is open the sandbox editor only takes keys that move through it
+  private handleReplayKey(e: KeyboardEvent): void {
+    if (e.ctrlKey || e.altKey || e.metaKey) return;
+    e.preventDefault();
+
+    const player = this.player!;
+    switch (e.key) {
+      case 'l':
+      case 'ArrowRight':
+        this.stepReplay(1);
+        break;
+      case 'h':
+      case 'ArrowLeft':
+        this.stepReplay(-1);
+        break;
+      case ' ':
+        this.toggleReplayPlayback();
+        break;
+      case '0':
+      case 'Home':
+        this.showReplayFrame(0);
+        break;
+      case '$':
+      case 'End':
+        this.showReplayFrame(player.frames.length - 1);
+        break;
+    }
+  }
+
+  private stepReplay(delta: number): void {
+    if (!this.player) return;
+    this.stopReplayPlayback();
+    this.showReplayFrame(this.player.index + delta);
+  }
+
+  private showReplayFrame(index: number): void {
+    const player = this.player;
+    if (!player) return;
+
+    player.index = Math.max(0, Math.min(index, player.frames.length - 1));
+    const frame = player.frames[player.index];
+    const take = player.replay.takes[frame.take];
+    const takeFrames = player.frames.filter((f) => f.take === frame.take);
+
+    this.changeBaselines.sandbox = take.start.lines;
+    this.renderEditor(frame.state, 'sandbox');
+
+    const label = player.replay.takes.length > 1 ? `${take.label} of ${player.replay.takes.length} · ` : '';
+    this.replayPositionEl.textContent = `${label}key ${frame.event + 1}/${take.events.length}`;
+    this.replayKeysEl.innerHTML = take.events
+      .map((event, i) => {
+        let className = 'replay-key';
+        if (i <= frame.event) className += ' played';
+        if (i === frame.event) className += ' current';
+        if (takeFrames[i + 1].diverged) className += ' diverged';
+        return `<span class="${className}" title="${event.modeBefore} → ${event.modeAfter}">${this.escapeHtml(event.key)}</span>`;
+      })
+      .join('');
+    this.replayKeysEl.querySelector('.current')?.scrollIntoView({ block: 'nearest' });
+
+    if (frame.diverged) {
+      this.setSandboxStatus('⚠ This key ends differently here than when it was recorded', true);
+    } else {
+      this.setSandboxStatus(player.frames.some((f) => f.diverged) ? 'Keys in red played back differently' : '');
+    }
+  }
+
+  // Plays on from the current key, keeping the pauses between keys as they were typed
+  private toggleReplayPlayback(): void {
+    const player = this.player;
+    if (!player) return;
+    if (player.timer !== null) {
+      this.stopReplayPlayback();
+      return;
+    }
+
+    if (player.index === player.frames.length - 1) this.showReplayFrame(0);
+    this.replayPlayBtn.textContent = 'Pause';
+    const playNext = () => {
+      const next = player.frames[player.index + 1];
+      if (!next) {
+        this.stopReplayPlayback();
+        return;
+      }
+      const events = player.replay.takes[next.take].events;
+      const pause = next.event > 0 ? events[next.event].time - events[next.event - 1].time : 500;
+      player.timer = window.setTimeout(() => {
+        this.showReplayFrame(player.index + 1);
+        playNext();
+      }, Math.min(Math.max(pause, 0), MAX_REPLAY_PAUSE) / Number(this.replaySpeedEl.value));
+    };
+    playNext();
+  }
+
+  private stopReplayPlayback(): void {
+    if (this.player?.timer != null) {
+      clearTimeout(this.player.timer);
+      this.player.timer = null;
+    }
+    this.replayPlayBtn.textContent = 'Play';
+  }
+
+  // Takes the buffer as the replay has it and hands the sandbox back for editing
+  private editFromReplay(): void {
+    const player = this.player;
+    if (!player) return;
+
+    const { state } = player.frames[player.index];
+    this.closeReplay();
+    // A new recording starts from a reset session, as its replay will
+    this.sandboxEngine.resetSession();
+    this.sandboxEngine.setContent(state.lines);
+    this.sandboxEngine.setCursor(state.cursor);
+    this.changeBaselines.sandbox = [...state.lines];
+    this.sandboxTakes = [startTake('Sandbox', this.sandboxEngine, true)];
+    this.renderEditor(this.sandboxEngine.getState(), 'sandbox');
+  }
+
+  private closeReplay(): void {
+    const player = this.player;
+    if (!player) return;
+
+    this.stopReplayPlayback();
+    this.player = null;
+    this.changeBaselines.sandbox = player.baseline;
+    this.replayBarEl.classList.remove('active');
+    this.sandboxEditorEl.classList.remove('read-only');
+    this.setSandboxStatus('');
+    this.renderEditor(this.sandboxEngine.getState(), 'sandbox');
+    this.sandboxEditorEl.focus();
+  }
+
   private showHint(): void {
     if (!this.currentLesson) return;
 
@@ -295,77 +1081,141 @@ class VimTrainerApp {
     this.keyHintEl.textContent = `💡 ${step.hint}`;
   }
 
-  private renderEditor(state: EditorState, type: 'lesson' | 'sandbox'): void {
-    const editorEl = type === 'lesson' ? this.editorEl : this.sandboxEditorEl;
-    const lineNumbersEl = type === 'lesson' ? this.lineNumbersEl : this.sandboxLineNumbersEl;
-    const modeIndicatorEl = type === 'lesson' ? this.modeIndicatorEl : this.sandboxModeIndicatorEl;
-    const commandDisplayEl = type === 'lesson' ? this.commandDisplayEl : this.sandboxCommandDisplayEl;
-    const cursorPosEl = type === 'lesson' ? this.cursorPosEl : this.sandboxCursorPosEl;
-
-    // Render lines
-    editorEl.innerHTML = state.lines
-      .map((line, lineIndex) => {
+  private renderEditor(state: EditorState, type: EditorType): void {
+    const { editorEl, lineNumbersEl, modeIndicatorEl, commandDisplayEl, cursorPosEl, outputPanelEl } = this.editorElements(type);
+    const options = this.engineFor(type).getOptions();
+    const { tabstop } = options;
+
+    // Render the lines in view
+    const { top } = state.viewport;
+    const shownLines = state.lines.slice(top, top + visibleLines(state.viewport, state.lines.length));
+    editorEl.innerHTML = shownLines
+      .map((line, index) => {
+        const lineIndex = top + index;
         const isCurrentLine = lineIndex === state.cursor.line;
-        const chars = (line || ' ')
+        const lineClass = isCurrentLine && options.cursorline ? 'editor-line current' : 'editor-line';
+        const lineMatches = state.searchMatches.filter((match) => match.line === lineIndex);
+        let screenCol = 0;
+        // With 'list' an empty line shows only its `$`
+        const chars = (line || (options.list ? '' : ' '))
           .split('')
           .map((char, colIndex) => {
             const isCursor = isCurrentLine && colIndex === state.cursor.col;
             const isSelected = this.isCharSelected(state, lineIndex, colIndex);
+            const isMatch = lineMatches.some((match) => colIndex >= match.start && colIndex < match.end);
 
             let className = 'char';
             if (isCursor && state.mode !== 'insert') className += ' cursor-on';
             if (isSelected) className += ' selected';
-
-            const displayChar = char === ' ' ? '&nbsp;' : this.escapeHtml(char);
+            if (isMatch) className += ' search-match';
+
+            // A tab fills the columns up to the next tabstop
+            const width = char === '\t' ? tabstop - (screenCol % tabstop) : 1;
+            screenCol += width;
+            if (char === '\t' && options.list) {
+              return `<span class="${className} list-char">&gt;${'-'.repeat(width - 1)}</span>`;
+            }
+            const displayChar = char === ' ' || char === '\t' ? '&nbsp;'.repeat(width) : this.escapeHtml(char);
             return `<span class="${className}">${displayChar}</span>`;
           })
           .join('');
 
         // Handle cursor at end of line in insert mode
         let cursorHtml = '';
-        if (isCurrentLine && state.mode === 'insert' && state.cursor.col >= line.length) {
+        if (isCurrentLine && (state.mode === 'insert' || state.mode === 'replace') && state.cursor.col >= line.length) {
           cursorHtml = `<span class="cursor insert"></span>`;
         }
         // Handle empty line cursor
         if (isCurrentLine && line.length === 0 && state.mode !== 'insert') {
-          return `<div class="editor-line current"><span class="char cursor-on">&nbsp;</span></div>`;
+          return `<div class="${lineClass}"><span class="char cursor-on">${options.list ? '$' : '&nbsp;'}</span></div>`;
         }
 
-        return `<div class="editor-line${isCurrentLine ? ' current' : ''}">${chars}${cursorHtml}</div>`;
+        const eolHtml = options.list ? `<span class="char list-char">$</span>` : '';
+        return `<div class="${lineClass}">${chars}${cursorHtml}${eolHtml}</div>`;
       })
       .join('');
 
-    // Render line numbers
-    lineNumbersEl.innerHTML = state.lines
-      .map((_, i) => {
-        const isActive = i === state.cursor.line;
-        return `<div class="line-number${isActive ? ' active' : ''}">${i + 1}</div>`;
+    // Render line numbers, with the marks set on each line and signs for search matches and changes
+    const marksByLine = userMarksByLine(state.marks);
+    const matchLines = new Set(state.searchMatches.map((match) => match.line));
+    const changes = lineChanges(this.changeBaselines[type], state.lines);
+    lineNumbersEl.innerHTML = shownLines
+      .map((_, index) => {
+        const i = top + index;
+        let className = 'line-number';
+        if (i === state.cursor.line && options.cursorline) className += ' active';
+        if (matchLines.has(i)) className += ' has-match';
+        const change = changes.get(i);
+        if (change) className += ` sign-${change}`;
+
+        const marks = marksByLine.get(i);
+        const markHtml = marks ? `<span class="line-mark">${this.escapeHtml(marks)}</span>` : '';
+        return `<div class="${className}">${markHtml}${lineNumberLabel(i, state.cursor.line, options)}</div>`;
       })
       .join('');
+    lineNumbersEl.classList.toggle('hidden', !options.number && !options.relativenumber);
+
+    // A wrapped line is taller, and its number takes the same height
+    editorEl.classList.toggle('wrap', options.wrap);
+    if (options.wrap) {
+      Array.from(lineNumbersEl.children).forEach((numberEl, index) => {
+        (numberEl as HTMLElement).style.height = `${(editorEl.children[index] as HTMLElement).offsetHeight}px`;
+      });
+    }
 
     // Update mode indicator
-    modeIndicatorEl.textContent = state.mode.toUpperCase();
+    modeIndicatorEl.textContent = state.mode.replace('-', ' ').toUpperCase();
     modeIndicatorEl.className = `mode-indicator ${state.mode}`;
 
     // Update command display
-    commandDisplayEl.textContent = state.commandBuffer || state.message || '';
+    const recording = state.recordingRegister ? `recording @${state.recordingRegister}` : '';
+    commandDisplayEl.textContent = [recording, state.commandBuffer || state.message].filter(Boolean).join('  ');
+
+    // Output of :registers and similar commands
+    outputPanelEl.classList.toggle('active', state.output !== null);
+    outputPanelEl.innerHTML = state.output
+      ? `<div class="output-title">${this.escapeHtml(state.output.title)}</div>` +
+        state.output.lines.map((line) => `<div class="output-line">${this.escapeHtml(line)}</div>`).join('') +
+        `<div class="output-prompt">Press ENTER or type command to continue</div>`
+      : '';
 
     // Update cursor position
     cursorPosEl.textContent = `Ln ${state.cursor.line + 1}, Col ${state.cursor.col + 1}`;
   }
 
-  private isCharSelected(state: EditorState, line: number, col: number): boolean {
-    if (!state.selection) return false;
-
-    const { start, end } = state.selection;
-    const selStart = start.line < end.line || (start.line === end.line && start.col <= end.col) ? start : end;
-    const selEnd = start.line < end.line || (start.line === end.line && start.col <= end.col) ? end : start;
+  // Hidden editors measure zero and keep their last height
+  private fitViewport(editorEl: HTMLElement, engine: VimEngine): void {
+    const style = getComputedStyle(editorEl);
+    const lineHeight = parseFloat(style.lineHeight);
+    const height = editorEl.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+    if (height > 0 && lineHeight > 0) {
+      engine.setViewportHeight(Math.floor(height / lineHeight));
+    }
+  }
 
-    if (line < selStart.line || line > selEnd.line) return false;
-    if (line === selStart.line && col < selStart.col) return false;
-    if (line === selEnd.line && col > selEnd.col) return false;
+  private isCharSelected(state: EditorState, line: number, col: number): boolean {
+    if (!state.selection || !isVisualMode(state.mode)) return false;
+    return isInSelection(state.mode, state.selection, line, col);
+  }
 
-    return true;
+  // Each file that was left out, with what is wrong with it, so an author sees why a lesson is missing
+  private renderLessonIssues(): string {
+    if (this.lessonIssues.length === 0) return '';
+
+    const rows = this.lessonIssues
+      .map(({ file, path, message }) => `
+        <li>
+          <span class="lesson-issue-file">${this.escapeHtml(file)}</span>
+          ${this.escapeHtml(path ? `${path}: ${message}` : message)}
+        </li>
+      `)
+      .join('');
+    return `
+      <div class="lesson-issues">
+        <div class="lesson-issues-title">⚠️ Some lessons could not be loaded</div>
+        <ul>${rows}</ul>
+      </div>
+    `;
   }
 
   private escapeHtml(text: string): string {
@@ -400,7 +1250,7 @@ class VimTrainerApp {
   }
 
   private updateProgress(): void {
-    const total = lessons.length;
+    const total = this.lessons.length;
     const completed = this.completedLessons.size;
     const percent = Math.round((completed / total) * 100);
 
@@ -413,6 +1263,7 @@ class VimTrainerApp {
     if (saved) {
       const data = JSON.parse(saved);
       this.completedLessons = new Set(data.completedLessons || []);
+      this.lessonScores = restoreScores(data.scores);
     }
   }
 
@@ -421,10 +1272,51 @@ class VimTrainerApp {
       'vim-trainer-progress',
       JSON.stringify({
         completedLessons: Array.from(this.completedLessons),
+        scores: this.lessonScores,
       })
     );
   }
 
+  private loadChallengeProgress(): void {
+    const saved = localStorage.getItem('vim-trainer-challenges');
+    this.challengeProgress = restoreChallengeProgress(saved ? JSON.parse(saved) : null);
+  }
+
+  private saveChallengeProgress(): void {
+    localStorage.setItem('vim-trainer-challenges', JSON.stringify(this.challengeProgress));
+  }
+
+  private loadSettings(): void {
+    const saved = localStorage.getItem('vim-trainer-settings');
+    const options = restoreOptions(saved ? JSON.parse(saved) : null);
+    for (const engine of this.engines()) {
+      engine.setOptions(options);
+    }
+  }
+
+  private saveSettings(options: VimOptions, source: VimEngine): void {
+    for (const engine of this.engines()) {
+      if (engine === source) continue;
+      engine.setOptions(options);
+      this.continueTake(engine);
+    }
+    localStorage.setItem('vim-trainer-settings', JSON.stringify(options));
+  }
+
+  // Options set from another editor come with a new take, so a replay sets them at the same point
+  private continueTake(engine: VimEngine): void {
+    const takes = engine === this.lessonEngine ? this.lessonTakes : engine === this.sandboxEngine ? this.sandboxTakes : [];
+    const current = takes[takes.length - 1];
+    if (!current) return;
+    if (current.events.length === 0) {
+      current.options = engine.getOptions();
+      return;
+    }
+    // A replay starts each take without half-typed keys
+    engine.cancelPendingKeys();
+    takes.push(startTake(current.label, engine, false));
+  }
+
   private checkPremiumStatus(): void {
     const premium = localStorage.getItem('vim-trainer-premium');
     this.isPremium = premium === 'true';
@@ -447,9 +1339,9 @@ class VimTrainerApp {
       <div class="modal-content premium-modal-content">
         <div class="modal-icon">⭐</div>
         <h2>Unlock All Lessons</h2>
-        <p>Get access to all ${lessons.length} lessons and master Vim!</p>
+        <p>Get access to all ${this.lessons.length} lessons and master Vim!</p>
         <ul class="premium-features">
-          <li>✓ ${lessons.length - this.freeLesonLimit} additional lessons</li>
+          <li>✓ ${this.lessons.length - this.freeLesonLimit} additional lessons</li>
           <li>✓ Advanced commands & motions</li>
           <li>✓ Lifetime access</li>
           <li>✓ Support development</li>
@@ -0,0 +1,127 @@
+/**
+ * Marks and the jump list on top of `EditorState.marks`.
+ *
+ *   a-z A-Z   set with `m`
+ *   '         where the cursor was before the latest jump (also reached as `)
+ *   .         where the last change was made
+ *   [ ]       first and last character of the last changed or yanked text
+ *   < >       start and end of the last visual selection
+ *
+ * Marks follow their line when lines above it are added or removed; deleting
+ * the line deletes the mark.
+ */
+
+import { CursorPosition } from './types';
+
+// Marks `m` can set; the others are only set by the editor
+export function isSettableMark(name: string): boolean {
+  return /^[a-zA-Z'`[\]<>]$/.test(name);
+}
+
+// ` and ' name the same mark
+export function markKey(name: string): string {
+  return name === '`' ? '\'' : name;
+}
+
+/** Move every mark through an edit, dropping the ones whose line is gone. */
+export function adjustMarks(marks: Record<string, CursorPosition>, mapLine: (line: number) => number | null): void {
+  for (const name of Object.keys(marks)) {
+    const line = mapLine(marks[name].line);
+    if (line === null) {
+      delete marks[name];
+    } else {
+      marks[name] = { line, col: marks[name].col };
+    }
+  }
+}
+
+// Marks shown in the gutter: the ones set by hand
+export function userMarksByLine(marks: Record<string, CursorPosition>): Map<number, string> {
+  const byLine = new Map<number, string>();
+  for (const name of Object.keys(marks).filter((name) => /^[a-zA-Z]$/.test(name)).sort()) {
+    const line = marks[name].line;
+    byLine.set(line, (byLine.get(line) ?? '') + name);
+  }
+  return byLine;
+}
+
+const DISPLAY_ORDER = ['\'', ...'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''), '[', ']', '.', '<', '>'];
+
+/** Rows for `:marks`, optionally limited to the given mark names. */
+export function formatMarks(marks: Record<string, CursorPosition>, lines: string[], names: string = ''): string[] {
+  const wanted = names.replace(/\s/g, '');
+
+  return DISPLAY_ORDER
+    .filter((name) => marks[name] && (!wanted || wanted.includes(name)))
+    .map((name) => {
+      const { line, col } = marks[name];
+      const text = (lines[line] ?? '').trim();
+      return ` ${name}  ${String(line + 1).padStart(6)}  ${String(col).padStart(4)}  ${text}`;
+    });
+}
+
+/**
+ * Positions the cursor jumped away from, walked with Ctrl-O and Ctrl-I.
+ * Like Vim, a line appears at most once and walking back from the newest
+ * entry first remembers where the cursor is, so Ctrl-I can return to it.
+ */
+export class JumpList {
+  private jumps: CursorPosition[] = [];
+  // Entry Ctrl-O / Ctrl-I last went to; equal to the length when not walking the list
+  private index: number = 0;
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 100) {
+    this.maxEntries = maxEntries;
+  }
+
+  push(position: CursorPosition): void {
+    this.jumps = this.jumps.filter((jump) => jump.line !== position.line);
+    this.jumps.push({ ...position });
+    if (this.jumps.length > this.maxEntries) {
+      this.jumps.shift();
+    }
+    this.index = this.jumps.length;
+  }
+
+  back(current: CursorPosition, count: number): CursorPosition | null {
+    if (this.index >= this.jumps.length) {
+      this.push(current);
+      this.index = this.jumps.length - 1;
+    }
+
+    const target = this.index - count;
+    if (target < 0) return null;
+    this.index = target;
+    return { ...this.jumps[target] };
+  }
+
+  forward(count: number): CursorPosition | null {
+    const target = this.index + count;
+    if (target >= this.jumps.length) return null;
+    this.index = target;
+    return { ...this.jumps[target] };
+  }
+
+  adjust(mapLine: (line: number) => number | null): void {
+    const kept: CursorPosition[] = [];
+    let index = this.index;
+
+    this.jumps.forEach((jump, i) => {
+      const line = mapLine(jump.line);
+      if (line === null) {
+        if (i < this.index) index--;
+      } else {
+        kept.push({ line, col: jump.col });
+      }
+    });
+
+    this.jumps = kept;
+    this.index = Math.max(0, Math.min(index, kept.length));
+  }
+
+  clear(): void {
+    this.jumps = [];
+    this.index = 0;
+  }
+}
@@ -0,0 +1,262 @@
+import { CursorPosition } from './types';
+
+/**
+ * Motions that walk the buffer across line boundaries: words, sentences,
+ * paragraphs and `%`. Each takes the buffer and the cursor and returns where
+ * the motion ends, or null when it cannot move at all.
+ *
+ * Word motions follow Vim's rules: a word is a run of letters, digits and
+ * underscores or a run of other non-blank characters, a WORD (`W`, `B`, `E`,
+ * `gE`) is any run of non-blanks, line breaks count as blanks and an empty
+ * line is a word of its own.
+ */
+
+// Character classes while walking the buffer; the line break of a non-empty line is a blank
+const BLANK = 0;
+const PUNCTUATION = 1;
+const WORD = 2;
+const EMPTY_LINE = 3;
+
+function classAt(lines: string[], pos: CursorPosition, bigWord: boolean): number {
+  const text = lines[pos.line];
+  if (text.length === 0) return EMPTY_LINE;
+  if (pos.col >= text.length) return BLANK;
+  const ch = text[pos.col];
+  if (/\s/.test(ch)) return BLANK;
+  if (bigWord) return WORD;
+  return /\w/.test(ch) ? WORD : PUNCTUATION;
+}
+
+// Positions run over every character of a line and then its line break (col === length)
+function next(lines: string[], pos: CursorPosition): CursorPosition | null {
+  if (pos.col < lines[pos.line].length) return { line: pos.line, col: pos.col + 1 };
+  if (pos.line < lines.length - 1) return { line: pos.line + 1, col: 0 };
+  return null;
+}
+
+function prev(lines: string[], pos: CursorPosition): CursorPosition | null {
+  if (pos.col > 0) return { line: pos.line, col: pos.col - 1 };
+  if (pos.line > 0) return { line: pos.line - 1, col: lines[pos.line - 1].length };
+  return null;
+}
+
+function isSame(a: CursorPosition, b: CursorPosition): boolean {
+  return a.line === b.line && a.col === b.col;
+}
+
+// Just past the last character, where an exclusive motion off the end of the buffer stops
+function endOfBuffer(lines: string[]): CursorPosition {
+  const line = lines.length - 1;
+  return { line, col: lines[line].length };
+}
+
+/** `w` / `W`: start of the `count`-th next word. */
+export function wordForward(lines: string[], cursor: CursorPosition, count: number, bigWord: boolean): CursorPosition | null {
+  let pos = cursor;
+  for (let i = 0; i < count; i++) {
+    const start = classAt(lines, pos, bigWord);
+    let p = next(lines, pos);
+    if (start !== BLANK && start !== EMPTY_LINE) {
+      while (p && classAt(lines, p, bigWord) === start) p = next(lines, p);
+    }
+    while (p && classAt(lines, p, bigWord) === BLANK) p = next(lines, p);
+    if (!p) {
+      const end = endOfBuffer(lines);
+      return isSame(end, cursor) ? null : end;
+    }
+    pos = p;
+  }
+  return pos;
+}
+
+/** `b` / `B`: start of the `count`-th previous word. */
+export function wordBackward(lines: string[], cursor: CursorPosition, count: number, bigWord: boolean): CursorPosition | null {
+  let pos = cursor;
+  for (let i = 0; i < count; i++) {
+    let p = prev(lines, pos);
+    while (p && classAt(lines, p, bigWord) === BLANK) p = prev(lines, p);
+    if (!p) break;
+
+    const cls = classAt(lines, p, bigWord);
+    if (cls !== EMPTY_LINE) {
+      let before = prev(lines, p);
+      while (before && classAt(lines, before, bigWord) === cls) {
+        p = before;
+        before = prev(lines, p);
+      }
+    }
+    pos = p;
+  }
+  return isSame(pos, cursor) ? null : pos;
+}
+
+/** `e` / `E`: end of the `count`-th word, skipping the one the cursor ends. */
+export function wordEnd(lines: string[], cursor: CursorPosition, count: number, bigWord: boolean): CursorPosition | null {
+  let pos = cursor;
+  for (let i = 0; i < count; i++) {
+    let p = next(lines, pos);
+    // Unlike `w`, `e` does not stop on empty lines
+    while (p && [BLANK, EMPTY_LINE].includes(classAt(lines, p, bigWord))) p = next(lines, p);
+    if (!p) break;
+
+    const cls = classAt(lines, p, bigWord);
+    let after = next(lines, p);
+    while (after && classAt(lines, after, bigWord) === cls) {
+      p = after;
+      after = next(lines, p);
+    }
+    pos = p;
+  }
+  return isSame(pos, cursor) ? null : pos;
+}
+
+/** `ge` / `gE`: end of the `count`-th previous word. */
+export function wordEndBackward(lines: string[], cursor: CursorPosition, count: number, bigWord: boolean): CursorPosition | null {
+  let pos = cursor;
+  for (let i = 0; i < count; i++) {
+    const start = classAt(lines, pos, bigWord);
+    let p = prev(lines, pos);
+    if (start !== BLANK && start !== EMPTY_LINE) {
+      while (p && classAt(lines, p, bigWord) === start) p = prev(lines, p);
+    }
+    while (p && classAt(lines, p, bigWord) === BLANK) p = prev(lines, p);
+    if (!p) {
+      pos = { line: 0, col: 0 };
+      break;
+    }
+    pos = p;
+  }
+  return isSame(pos, cursor) ? null : pos;
+}
+
+/**
+ * Where sentences start. A sentence ends at `.`, `!` or `?`, optionally
+ * followed by closing `)`, `]`, `"` or `'`, and then a blank or the end of
+ * the line. Empty lines end paragraphs, and with them sentences, and count
+ * as a sentence themselves.
+ */
+function sentenceStarts(lines: string[]): CursorPosition[] {
+  const starts: CursorPosition[] = [];
+  let line = 0;
+
+  while (line < lines.length) {
+    if (lines[line].length === 0) {
+      starts.push({ line, col: 0 });
+      line++;
+      continue;
+    }
+
+    let last = line;
+    while (last + 1 < lines.length && lines[last + 1].length > 0) last++;
+    const paragraph = lines.slice(line, last + 1);
+    const text = paragraph.join('\n');
+
+    const offsets: number[] = [];
+    const first = text.search(/\S/);
+    if (first !== -1) offsets.push(first);
+    const sentenceEnd = /[.!?][)\]"']*\s+(?=\S)/g;
+    let match;
+    while ((match = sentenceEnd.exec(text))) {
+      offsets.push(match.index + match[0].length);
+    }
+
+    for (const offset of offsets) {
+      let row = 0;
+      let col = offset;
+      while (col > paragraph[row].length) {
+        col -= paragraph[row].length + 1;
+        row++;
+      }
+      starts.push({ line: line + row, col });
+    }
+    line = last + 1;
+  }
+
+  return starts;
+}
+
+function isBefore(a: CursorPosition, b: CursorPosition): boolean {
+  return a.line < b.line || (a.line === b.line && a.col < b.col);
+}
+
+/** `)`: start of the `count`-th next sentence, or the end of the buffer. */
+export function sentenceForward(lines: string[], cursor: CursorPosition, count: number): CursorPosition | null {
+  const after = sentenceStarts(lines).filter((start) => isBefore(cursor, start));
+  if (count <= after.length) return after[count - 1];
+
+  const end = endOfBuffer(lines);
+  return isBefore(cursor, { line: end.line, col: Math.max(0, end.col - 1) }) ? end : null;
+}
+
+/** `(`: start of the current sentence, then of the ones before it. */
+export function sentenceBackward(lines: string[], cursor: CursorPosition, count: number): CursorPosition | null {
+  const before = sentenceStarts(lines).filter((start) => isBefore(start, cursor));
+  if (count <= before.length) return before[before.length - count];
+  return cursor.line === 0 && cursor.col === 0 ? null : { line: 0, col: 0 };
+}
+
+/**
+ * `}`: the `count`-th empty line after a paragraph, or the end of the buffer.
+ * Like Vim, only truly empty lines separate paragraphs.
+ */
+export function paragraphForward(lines: string[], cursor: CursorPosition, count: number): CursorPosition | null {
+  let line = cursor.line;
+  for (let i = 0; i < count; i++) {
+    while (line < lines.length - 1 && lines[line].length === 0) line++;
+    while (line < lines.length - 1 && lines[line].length > 0) line++;
+  }
+
+  const target = lines[line].length === 0 ? { line, col: 0 } : endOfBuffer(lines);
+  return isSame(target, cursor) ? null : target;
+}
+
+/** `{`: the `count`-th empty line before a paragraph, or the start of the buffer. */
+export function paragraphBackward(lines: string[], cursor: CursorPosition, count: number): CursorPosition | null {
+  let line = cursor.line;
+  for (let i = 0; i < count; i++) {
+    while (line > 0 && lines[line].length === 0) line--;
+    while (line > 0 && lines[line].length > 0) line--;
+  }
+
+  const target = { line, col: 0 };
+  return isSame(target, cursor) ? null : target;
+}
+
+const MATCHING_BRACKETS: Record<string, string> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+  ')': '(',
+  ']': '[',
+  '}': '{',
+};
+
+/**
+ * `%`: the bracket matching the first one at or after the cursor on its line,
+ * counting nested pairs of the same kind across lines.
+ */
+export function matchBracket(lines: string[], cursor: CursorPosition): CursorPosition | null {
+  const text = lines[cursor.line];
+  let col = cursor.col;
+  while (col < text.length && !MATCHING_BRACKETS[text[col]]) col++;
+  if (col >= text.length) return null;
+
+  const bracket = text[col];
+  const match = MATCHING_BRACKETS[bracket];
+  const forward = '([{'.includes(bracket);
+  let depth = 0;
+  let pos: CursorPosition | null = { line: cursor.line, col };
+
+  while (pos) {
+    const ch = lines[pos.line][pos.col];
+    if (ch === bracket) depth++;
+    if (ch === match && --depth === 0) return pos;
+    pos = forward ? next(lines, pos) : prev(lines, pos);
+  }
+  return null;
+}
+
+/** `N%`: the line `count` percent of the way through the buffer. */
+export function percentLine(lines: string[], count: number): number {
+  return Math.min(lines.length, Math.ceil((count * lines.length) / 100)) - 1;
+}
@@ -0,0 +1,158 @@
+import { DEFAULT_INDENT_OPTIONS, IndentOptions } from './indent';
+import { SearchOptions } from './search';
+import { DEFAULT_VIEWPORT } from './viewport';
+
+/**
+ * Settings changed with `:set`, kept like a vimrc between visits. Every
+ * option has a full and a short name and is either a flag or a number:
+ *
+ *   :set nu  :set nonu  :set invnu  :set nu!   switch a flag on, off, over
+ *   :set sw=4  :set sw+=2  :set sw-=2          give a number a value
+ *   :set sw?  :set sw&                         show an option, reset it
+ *   :set  :set all                             list changed options, or all
+ */
+
+export interface VimOptions extends SearchOptions, IndentOptions {
+  number: boolean;
+  relativenumber: boolean;
+  hlsearch: boolean;
+  incsearch: boolean;
+  wrap: boolean;
+  scrolloff: number;
+  // Show tabs and line ends
+  list: boolean;
+  cursorline: boolean;
+}
+
+type OptionName = keyof VimOptions;
+
+// Defaults keep the trainer's own look: numbered, highlighted and without wrapping
+export const DEFAULT_OPTIONS: VimOptions = {
+  ...DEFAULT_INDENT_OPTIONS,
+  number: true,
+  relativenumber: false,
+  ignorecase: true,
+  smartcase: true,
+  hlsearch: true,
+  incsearch: true,
+  wrap: false,
+  scrolloff: DEFAULT_VIEWPORT.scrolloff,
+  list: false,
+  cursorline: true,
+};
+
+// Short names, and the smallest value of number options
+const OPTION_INFO: Record<OptionName, { short: string; min?: number }> = {
+  autoindent: { short: 'ai' },
+  cursorline: { short: 'cul' },
+  expandtab: { short: 'et' },
+  hlsearch: { short: 'hls' },
+  ignorecase: { short: 'ic' },
+  incsearch: { short: 'is' },
+  list: { short: 'list' },
+  number: { short: 'nu' },
+  relativenumber: { short: 'rnu' },
+  scrolloff: { short: 'so', min: 0 },
+  shiftwidth: { short: 'sw', min: 1 },
+  smartcase: { short: 'scs' },
+  tabstop: { short: 'ts', min: 1 },
+  wrap: { short: 'wrap' },
+};
+
+const OPTION_NAMES = Object.keys(OPTION_INFO) as OptionName[];
+
+function setOption(options: VimOptions, name: OptionName, value: boolean | number): void {
+  (options as Record<OptionName, boolean | number>)[name] = value;
+}
+
+function resolveOptionName(name: string): OptionName | null {
+  return OPTION_NAMES.find((full) => full === name || OPTION_INFO[full].short === name) ?? null;
+}
+
+// As Vim shows it: `  number`, `nonumber` or `shiftwidth=2`
+export function formatOption(name: OptionName, options: VimOptions): string {
+  const value = options[name];
+  if (typeof value === 'number') return `${name}=${value}`;
+  return value ? `  ${name}` : `no${name}`;
+}
+
+/** `:set` and `:set all`: the options that differ from their defaults, or every option. */
+export function listOptions(options: VimOptions, all: boolean): string[] {
+  const names = OPTION_NAMES.filter((name) => all || options[name] !== DEFAULT_OPTIONS[name]);
+  return ['--- Options ---', ...names.map((name) => formatOption(name, options))];
+}
+
+export interface SetResult {
+  options: VimOptions;
+  // Values asked for with `?` or by naming a number option
+  shown: string[];
+  // The first argument that failed; the ones before it still apply, as in Vim
+  error: string | null;
+}
+
+/** Apply the arguments of `:set nu sw=4 ic?` in order. */
+export function applySetCommand(args: string, current: VimOptions): SetResult {
+  const options = { ...current };
+  const shown: string[] = [];
+
+  for (const arg of args.split(/\s+/).filter(Boolean)) {
+    const match = /^([a-z]+)(.*)$/.exec(arg);
+    if (!match) return { options, shown, error: `E518: Unknown option: ${arg}` };
+
+    const [, word, suffix] = match;
+    let name = resolveOptionName(word);
+    let prefix = '';
+    if (!name && /^(no|inv)/.test(word)) {
+      prefix = word.startsWith('no') ? 'no' : 'inv';
+      name = resolveOptionName(word.slice(prefix.length));
+    }
+    if (!name) return { options, shown, error: `E518: Unknown option: ${word}` };
+
+    const value = options[name];
+    if (suffix === '?') {
+      shown.push(formatOption(name, options));
+    } else if (suffix === '&') {
+      setOption(options, name, DEFAULT_OPTIONS[name]);
+    } else if (typeof value === 'boolean') {
+      if (suffix === '!' && !prefix) setOption(options, name, !value);
+      else if (suffix) return { options, shown, error: `E474: Invalid argument: ${arg}` };
+      else setOption(options, name, prefix === 'inv' ? !value : prefix !== 'no');
+    } else {
+      if (prefix) return { options, shown, error: `E474: Invalid argument: ${arg}` };
+      if (!suffix) {
+        shown.push(formatOption(name, options));
+        continue;
+      }
+
+      const assignment = /^([+\-^]?)[=:](.*)$/.exec(suffix);
+      if (!assignment) return { options, shown, error: `E518: Unknown option: ${arg}` };
+      const [, operator, digits] = assignment;
+      if (!/^\d+$/.test(digits)) return { options, shown, error: `E521: Number required after =: ${arg}` };
+
+      const amount = parseInt(digits);
+      const result = operator === '+' ? value + amount
+        : operator === '-' ? value - amount
+        : operator === '^' ? value * amount
+        : amount;
+      const min = OPTION_INFO[name].min ?? 0;
+      if (result < min) return { options, shown, error: min > 0 ? `E487: Argument must be positive: ${arg}` : `E474: Invalid argument: ${arg}` };
+      setOption(options, name, result);
+    }
+  }
+
+  return { options, shown, error: null };
+}
+
+/** Options read back from storage, ignoring anything unknown or of the wrong type. */
+export function restoreOptions(saved: unknown): VimOptions {
+  const options = { ...DEFAULT_OPTIONS };
+  if (!saved || typeof saved !== 'object') return options;
+
+  for (const name of OPTION_NAMES) {
+    const value = (saved as Record<string, unknown>)[name];
+    if (typeof value !== typeof DEFAULT_OPTIONS[name]) continue;
+    if (typeof value === 'number' && !(Number.isInteger(value) && value >= (OPTION_INFO[name].min ?? 0))) continue;
+    setOption(options, name, value as boolean | number);
+  }
+  return options;
+}
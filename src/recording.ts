@@ -0,0 +1,198 @@
+import { VimEngine } from './vim-engine';
+import { stateHash } from './hash';
+import { parseKeyToken } from './key-notation';
+import { VimOptions, restoreOptions } from './options';
+import { isCount, isObject } from './lesson-format';
+import { CursorPosition, EditorState, KeyLogEntry, VimMode } from './types';
+
+/**
+ * Editing sessions recorded key by key, to hand to someone else and play
+ * back. A replay is a list of takes, each a starting buffer and the keys
+ * typed from it (a lesson gives one take per step). Playing back runs the
+ * takes in turn through one fresh engine, with the window height the session
+ * was recorded with and each take's options and file name, and checks every
+ * key ends in the state it did then. Recording starts from a reset session (no
+ * registers, search or change to repeat), so the fresh engine starts where
+ * the recorded one did. Like lesson steps, a take either loads its buffer as
+ * a new file or carries on with what the take before it left.
+ *
+ * Replays are exported as JSON:
+ *
+ *   {
+ *     "version": 2,
+ *     "title": "Basic Movement",
+ *     "viewportHeight": 20,
+ *     "takes": [
+ *       {
+ *         "label": "Step 1",
+ *         "newBuffer": true,
+ *         "options": { "shiftwidth": 2, ... },
+ *         "fileName": "basic-movement.txt",
+ *         "start": { "lines": ["first line"], "cursor": { "line": 0, "col": 0 } },
+ *         "events": [{ "key": "j", "modeBefore": "normal", "modeAfter": "normal", "stateHash": "1x2y3z", "time": 1760000000000 }]
+ *       }
+ *     ]
+ *   }
+ *
+ * Version 1 files kept one "options" and "fileName" beside "title" for every
+ * take; they still play.
+ */
+
+export interface ReplayTake {
+  label: string;
+  // Whether the take loaded its buffer afresh, or went on from the take before
+  newBuffer: boolean;
+  // A :set in another editor changes them between takes
+  options: VimOptions;
+  // What the "% register holds
+  fileName: string;
+  start: { lines: string[]; cursor: CursorPosition };
+  events: KeyLogEntry[];
+}
+
+export interface Replay {
+  version: 2;
+  title: string;
+  viewportHeight: number;
+  takes: ReplayTake[];
+}
+
+// One point in a replay: the start of a take, or just after one of its keys
+export interface ReplayFrame {
+  take: number;
+  // Index of the key in its take; -1 for the start
+  event: number;
+  state: EditorState;
+  // The key left a different state than when it was recorded
+  diverged: boolean;
+}
+
+// Keeps a replay file to something a person can have typed
+const MAX_EVENTS = 20_000;
+
+// Keyed by mode so a mode added to VimMode has to be added here too
+const MODES: Record<VimMode, true> = {
+  normal: true,
+  insert: true,
+  replace: true,
+  visual: true,
+  'visual-line': true,
+  'visual-block': true,
+  command: true,
+};
+
+export function startTake(label: string, engine: VimEngine, newBuffer: boolean): ReplayTake {
+  const state = engine.getState();
+  return {
+    label,
+    newBuffer,
+    options: engine.getOptions(),
+    fileName: state.registers['%'] ?? '',
+    start: { lines: [...state.lines], cursor: { ...state.cursor } },
+    events: [],
+  };
+}
+
+/** Every state a replay goes through, in order. */
+export function replayFrames(replay: Replay): ReplayFrame[] {
+  const frames: ReplayFrame[] = [];
+  const engine = new VimEngine(replay.takes[0].start.lines);
+  engine.setViewportHeight(replay.viewportHeight);
+
+  replay.takes.forEach((take, index) => {
+    // As a lesson does when it moves on to the next step
+    engine.cancelPendingKeys();
+    engine.setOptions(take.options);
+    engine.setFileName(take.fileName);
+    if (index > 0 && take.newBuffer) engine.setContent(take.start.lines);
+    engine.setCursor(take.start.cursor);
+    frames.push({ take: index, event: -1, state: snapshot(engine), diverged: false });
+
+    take.events.forEach((event, eventIndex) => {
+      const { key, ctrl } = parseKeyToken(event.key);
+      engine.handleKeyDown(new KeyboardEvent('keydown', { key, ctrlKey: ctrl }));
+      const state = snapshot(engine);
+      frames.push({ take: index, event: eventIndex, state, diverged: stateHash(state) !== event.stateHash });
+    });
+  });
+
+  return frames;
+}
+
+// The engine edits its lines in place, so each frame keeps its own copy
+function snapshot(engine: VimEngine): EditorState {
+  const state = engine.getState();
+  return { ...state, lines: [...state.lines], cursor: { ...state.cursor } };
+}
+
+/** A replay from an imported file, or the reason it is not one. */
+export function parseReplay(data: unknown): Replay | string {
+  if (!isObject(data)) return 'A replay must be a JSON object';
+  if (data.version !== 1 && data.version !== 2) return 'Only version 1 and 2 replays can be played';
+  const { title, viewportHeight } = data;
+  if (typeof title !== 'string') return 'The replay needs a "title"';
+  if (!Array.isArray(data.takes) || data.takes.length === 0) return 'The replay has no "takes"';
+  if (!(typeof viewportHeight === 'number' && Number.isInteger(viewportHeight) && viewportHeight > 0)) {
+    return 'The replay needs a "viewportHeight"';
+  }
+
+  const takes: ReplayTake[] = [];
+  let eventCount = 0;
+  for (const [index, take] of data.takes.entries()) {
+    const where = `Take ${index + 1}`;
+    if (!isObject(take) || typeof take.label !== 'string') return `${where} needs a "label"`;
+    if (typeof take.newBuffer !== 'boolean') return `${where} needs "newBuffer", true or false`;
+
+    // Options and a file name missing from hand-made files fall back to the defaults
+    const settings = data.version === 1 ? data : take;
+    const fileName = settings.fileName ?? '';
+    if (typeof fileName !== 'string') return `${data.version === 1 ? 'The replay' : where} needs "fileName" to be a string`;
+
+    const { start } = take;
+    if (!isObject(start) || !isStringList(start.lines) || start.lines.length === 0) {
+      return `${where} needs "start.lines", a non-empty list of strings`;
+    }
+    if (!isPosition(start.cursor)) return `${where} needs "start.cursor" as { "line": n, "col": n }`;
+
+    if (!Array.isArray(take.events)) return `${where} needs "events", a list`;
+    eventCount += take.events.length;
+    if (eventCount > MAX_EVENTS) return `The replay has more than ${MAX_EVENTS} keys`;
+    const badEvent = take.events.findIndex((event: unknown) => !isEvent(event));
+    if (badEvent !== -1) return `${where}, key ${badEvent + 1} is not a recorded key`;
+
+    takes.push({
+      label: take.label,
+      newBuffer: take.newBuffer,
+      options: restoreOptions(settings.options),
+      fileName,
+      start: { lines: start.lines, cursor: start.cursor },
+      events: take.events,
+    });
+  }
+
+  return { version: 2, title, viewportHeight, takes };
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isPosition(value: unknown): value is CursorPosition {
+  return isObject(value) && isCount(value.line) && isCount(value.col);
+}
+
+function isMode(value: unknown): value is VimMode {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MODES, value);
+}
+
+function isEvent(value: unknown): value is KeyLogEntry {
+  return (
+    isObject(value) &&
+    typeof value.key === 'string' &&
+    value.key.length > 0 &&
+    isMode(value.modeBefore) &&
+    isMode(value.modeAfter) &&
+    typeof value.stateHash === 'string' &&
+    typeof value.time === 'number'
+  );
+}
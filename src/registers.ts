@@ -0,0 +1,107 @@
+/**
+ * Vim's register model on top of `EditorState.registers`. Text ending in a
+ * newline is linewise, anything else characterwise (the convention `p` uses).
+ *
+ *   ""       unnamed, always holds the last yank or delete
+ *   "0       last yank
+ *   "1-"9    delete history, shifted on every multi-line delete
+ *   "-       last delete within one line
+ *   "a-"z    named; "A-"Z append to them
+ *   "_       black hole, stores nothing
+ *   ". "% ": "/  read-only: last insert, file name, command line, search
+ */
+
+import { TextRange } from './types';
+
+export const READ_ONLY_REGISTERS = ['.', '%', ':', '/'];
+
+// Deletes with these motions always go to "1, even within one line
+const BIG_DELETE_MOTIONS = ['%', '(', ')', '`', '/', '?', 'n', 'N', '{', '}'];
+
+const DISPLAY_ORDER = ['"', ...'0123456789abcdefghijklmnopqrstuvwxyz-.:%/'.split('')];
+
+export function isLinewise(text: string): boolean {
+  return text.endsWith('\n');
+}
+
+/** Registers that can follow `"` in a command. */
+export function isValidRegister(name: string): boolean {
+  return /^[a-zA-Z0-9"\-_]$/.test(name) || READ_ONLY_REGISTERS.includes(name);
+}
+
+/** Registers yanks and deletes can store into; the read-only ones can only be put. */
+export function isWritableRegister(name: string | null): boolean {
+  return !READ_ONLY_REGISTERS.includes(name ?? '');
+}
+
+export function readRegister(registers: Record<string, string>, name: string | null): string {
+  return registers[(name ?? '"').toLowerCase()] || '';
+}
+
+export function isSmallDelete(range: TextRange, motion: string | undefined): boolean {
+  return !range.linewise && range.start.line === range.end.line && !BIG_DELETE_MOTIONS.includes(motion ?? '');
+}
+
+/**
+ * Store yanked or deleted text. `smallDelete` is true for deletes that stay
+ * within one line, which go to "- instead of shifting the numbered registers.
+ */
+export function storeRegister(
+  registers: Record<string, string>,
+  name: string | null,
+  text: string,
+  kind: 'yank' | 'delete',
+  smallDelete: boolean = false
+): void {
+  if (name === '_' || READ_ONLY_REGISTERS.includes(name ?? '')) {
+    return;
+  }
+
+  if (name && /^[A-Z]$/.test(name)) {
+    const target = name.toLowerCase();
+    registers[target] = appendText(registers[target] || '', text);
+    registers['"'] = registers[target];
+    return;
+  }
+
+  if (name && name !== '"') {
+    registers[name] = text;
+    registers['"'] = text;
+    return;
+  }
+
+  if (kind === 'yank') {
+    registers['0'] = text;
+  } else if (smallDelete) {
+    registers['-'] = text;
+  } else {
+    for (let i = 9; i > 1; i--) {
+      if (registers[String(i - 1)] !== undefined) {
+        registers[String(i)] = registers[String(i - 1)];
+      }
+    }
+    registers['1'] = text;
+  }
+  registers['"'] = text;
+}
+
+// Appending mixes kinds the way Vim does: anything linewise makes the result linewise
+function appendText(existing: string, text: string): string {
+  if (!existing) return text;
+  if (isLinewise(existing)) return isLinewise(text) ? existing + text : existing + text + '\n';
+  return isLinewise(text) ? existing + '\n' + text : existing + text;
+}
+
+/** Rows for `:registers`, optionally limited to the given register names. */
+export function formatRegisters(registers: Record<string, string>, names: string = ''): string[] {
+  const wanted = names.replace(/\s/g, '').toLowerCase();
+
+  return DISPLAY_ORDER
+    .filter((name) => registers[name] && (!wanted || wanted.includes(name)))
+    .map((name) => {
+      const text = registers[name];
+      const type = isLinewise(text) ? 'l' : 'c';
+      const shown = text.replace(/\n/g, '^J').replace(/\t/g, '^I');
+      return `  ${type}  "${name}   ${shown}`;
+    });
+}
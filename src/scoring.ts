@@ -0,0 +1,59 @@
+/**
+ * Keystroke scoring, golf style. A step's par is how many keys a practised
+ * Vim user would take; its solution is the shortest way known. Matching the
+ * solution is optimal, staying within par is par, anything more is over par.
+ */
+
+export type Rating = 'optimal' | 'par' | 'over-par';
+
+export const RATING_LABELS: Record<Rating, string> = {
+  optimal: 'Optimal',
+  par: 'Par',
+  'over-par': 'Over par',
+};
+
+export interface KeyScore {
+  keys: number;
+  par: number;
+  // Keys in the known solution; par when there is none
+  best: number;
+}
+
+export interface LessonScore extends KeyScore {
+  rating: Rating;
+}
+
+export function rateKeys({ keys, par, best }: KeyScore): Rating {
+  if (keys <= best) return 'optimal';
+  return keys <= par ? 'par' : 'over-par';
+}
+
+/** A lesson is scored as one long hole: the keys, par and best of its steps added up. */
+export function scoreLesson(steps: KeyScore[]): LessonScore | null {
+  if (steps.length === 0) return null;
+
+  const total = steps.reduce(
+    (sum, step) => ({ keys: sum.keys + step.keys, par: sum.par + step.par, best: sum.best + step.best }),
+    { keys: 0, par: 0, best: 0 }
+  );
+  return { ...total, rating: rateKeys(total) };
+}
+
+/** Keeps the better of two scores for the same lesson; fewer keys wins. */
+export function bestScore(saved: LessonScore | undefined, score: LessonScore): LessonScore {
+  return saved && saved.keys <= score.keys ? saved : score;
+}
+
+/** Scores read back from storage, ignoring entries of the wrong shape. */
+export function restoreScores(saved: unknown): Record<string, LessonScore> {
+  const scores: Record<string, LessonScore> = {};
+  if (!saved || typeof saved !== 'object') return scores;
+
+  for (const [id, value] of Object.entries(saved as Record<string, unknown>)) {
+    const score = value as Partial<LessonScore> | null;
+    if (!score || ![score.keys, score.par, score.best].every((n) => Number.isInteger(n) && n! >= 0)) continue;
+    const { keys, par, best } = score as KeyScore;
+    scores[id] = { keys, par, best, rating: rateKeys({ keys, par, best }) };
+  }
+  return scores;
+}
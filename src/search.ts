@@ -0,0 +1,306 @@
+import { CursorPosition, SearchMatch } from './types';
+
+/**
+ * Vim search patterns translated to JavaScript regular expressions, and
+ * finding matches in the buffer. Matches never span lines.
+ */
+
+export interface SearchOptions {
+  ignorecase: boolean;
+  smartcase: boolean;
+}
+
+// Where the cursor lands relative to a match: `/foo/+2`, `/foo/e-1`, `/foo/s+1`
+export interface SearchOffset {
+  type: 'none' | 'line' | 'start' | 'end';
+  amount: number;
+}
+
+export interface SearchResult {
+  match: SearchMatch;
+  target: CursorPosition;
+  // The search went past the end (or start) of the buffer and continued from the other side
+  wrapped: boolean;
+}
+
+// \v very magic, \m magic (the default), \M nomagic, \V very nomagic
+type MagicLevel = 'v' | 'm' | 'M' | 'V';
+
+// Characters that are special without a backslash at each level; with one they swap meaning
+const SPECIAL_CHARS: Record<MagicLevel, string> = {
+  v: '^$.*[~+?=@()|{<>%',
+  m: '^$.*[~',
+  M: '^$',
+  V: '',
+};
+
+const ALL_SPECIAL = SPECIAL_CHARS.v;
+
+const CLASSES: Record<string, string> = {
+  s: '\\s', S: '\\S',
+  d: '\\d', D: '\\D',
+  w: '\\w', W: '\\W',
+  a: '[A-Za-z]', A: '[^A-Za-z]',
+  l: '[a-z]', L: '[^a-z]',
+  u: '[A-Z]', U: '[^A-Z]',
+  x: '[0-9A-Fa-f]', X: '[^0-9A-Fa-f]',
+  o: '[0-7]', O: '[^0-7]',
+  h: '[A-Za-z_]', H: '[^A-Za-z_]',
+  n: '\\n', t: '\\t', r: '\\r', e: '\\x1b',
+};
+
+const POSIX_CLASSES: Record<string, string> = {
+  alpha: 'A-Za-z',
+  digit: '0-9',
+  alnum: '0-9A-Za-z',
+  lower: 'a-z',
+  upper: 'A-Z',
+  space: '\\s',
+  blank: ' \\t',
+  xdigit: '0-9A-Fa-f',
+  punct: '!-/:-@[-`{-~',
+};
+
+function escapeLiteral(ch: string): string {
+  return /[\\^$.*+?()[\]{}|/]/.test(ch) ? '\\' + ch : ch;
+}
+
+// smartcase only looks at what was typed, not at escapes such as \S
+function hasUppercase(pattern: string): boolean {
+  return /[A-Z]/.test(pattern.replace(/\\./g, ''));
+}
+
+/**
+ * Compile a Vim pattern. `\c` / `\C` anywhere in the pattern force the case
+ * sensitivity; otherwise `ignorecase` and `smartcase` decide. Returns null
+ * for patterns that do not compile.
+ */
+export function compilePattern(pattern: string, options: SearchOptions): RegExp | null {
+  let magic: MagicLevel = 'm';
+  let ignoreCase: boolean | null = null;
+  let source = '';
+  // An atom can follow: `*` and `^` here are literal in Vim and invalid in JavaScript
+  const atStart = () => source === '' || /(\(|\(\?:|\|)$/.test(source);
+
+  for (let i = 0; i < pattern.length; i++) {
+    let ch = pattern[i];
+    let escaped = false;
+    if (ch === '\\' && i + 1 < pattern.length) {
+      ch = pattern[++i];
+      escaped = true;
+    }
+
+    if (escaped) {
+      if ('vmMV'.includes(ch)) {
+        magic = ch as MagicLevel;
+        continue;
+      }
+      if (ch === 'c' || ch === 'C') {
+        ignoreCase = ch === 'c';
+        continue;
+      }
+      if (CLASSES[ch]) {
+        source += CLASSES[ch];
+        continue;
+      }
+      if (/[1-9]/.test(ch)) {
+        source += '\\' + ch;
+        continue;
+      }
+    }
+
+    const special = ALL_SPECIAL.includes(ch) && SPECIAL_CHARS[magic].includes(ch) !== escaped;
+    if (!special) {
+      source += escapeLiteral(ch);
+      continue;
+    }
+
+    switch (ch) {
+      case '^':
+        source += atStart() ? '^' : '\\^';
+        break;
+
+      case '$': {
+        const rest = pattern.slice(i + 1);
+        const atEnd = rest === '' || /^\\[|)]/.test(rest) || (magic === 'v' && /^[|)]/.test(rest));
+        source += atEnd ? '$' : '\\$';
+        break;
+      }
+
+      case '*':
+        source += atStart() ? '\\*' : '*';
+        break;
+
+      case '[': {
+        const end = findBracketEnd(pattern, i);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          const body = pattern.slice(i + 1, end).replace(/\[:(\w+):\]/g, (all, name) => POSIX_CLASSES[name] ?? all);
+          source += `[${body}]`;
+          i = end;
+        }
+        break;
+      }
+
+      case '{': {
+        const close = pattern.indexOf('}', i);
+        const braces = close === -1 ? null : /^(-?)(\d*)(,?)(\d*)\\?$/.exec(pattern.slice(i + 1, close));
+        if (!braces) {
+          source += '\\{';
+          break;
+        }
+        const [, lazy, min, comma, max] = braces;
+        const quantifier = !min && !comma && !max ? '*' : comma ? `{${min || 0},${max}}` : `{${min}}`;
+        source += quantifier + (lazy ? '?' : '');
+        i = close;
+        break;
+      }
+
+      case '<':
+        source += '\\b(?=\\w)';
+        break;
+
+      case '>':
+        source += '\\b(?<=\\w)';
+        break;
+
+      case '=':
+      case '?':
+        source += '?';
+        break;
+
+      case '%':
+        // Only `\%(` (non-capturing group) is supported
+        if (pattern[i + 1] === '(' || pattern.startsWith('\\(', i + 1)) {
+          source += '(?:';
+          i += pattern[i + 1] === '(' ? 1 : 2;
+        } else {
+          source += '%';
+        }
+        break;
+
+      // No previous substitute string or lookaround support: match literally
+      case '~':
+      case '@':
+        source += ch;
+        break;
+
+      default:
+        // + ( ) |
+        source += ch;
+    }
+  }
+
+  if (ignoreCase === null) {
+    ignoreCase = options.ignorecase && !(options.smartcase && hasUppercase(pattern));
+  }
+
+  try {
+    return new RegExp(source, ignoreCase ? 'gi' : 'g');
+  } catch {
+    return null;
+  }
+}
+
+function findBracketEnd(pattern: string, open: number): number {
+  let i = open + 1;
+  if (pattern[i] === '^') i++;
+  if (pattern[i] === ']') i++;
+  for (; i < pattern.length; i++) {
+    if (pattern[i] === '\\') i++;
+    else if (pattern[i] === '[' && pattern[i + 1] === ':') {
+      const close = pattern.indexOf(':]', i + 2);
+      if (close !== -1) i = close + 1;
+    } else if (pattern[i] === ']') return i;
+  }
+  return -1;
+}
+
+/**
+ * Split what was typed after `/` or `?` into the pattern and its offset:
+ * `foo/e+1` searches for "foo" and lands one past the end of the match.
+ */
+export function parseSearchCommand(text: string, delimiter: string): { pattern: string; offset: SearchOffset } {
+  let end = 0;
+  while (end < text.length && text[end] !== delimiter) {
+    if (text[end] === '\\') end++;
+    end++;
+  }
+  const pattern = text.slice(0, Math.min(end, text.length));
+  return { pattern, offset: parseOffset(text.slice(end + 1)) };
+}
+
+function parseOffset(text: string): SearchOffset {
+  const match = /^([esb]?)([+-]?)(\d*)$/.exec(text);
+  if (!match || text === '') return { type: 'none', amount: 0 };
+
+  const [, anchor, sign, digits] = match;
+  const size = digits ? parseInt(digits) : sign ? 1 : 0;
+  return {
+    type: anchor === 'e' ? 'end' : anchor ? 'start' : 'line',
+    amount: sign === '-' ? -size : size,
+  };
+}
+
+export function findMatches(lines: string[], regex: RegExp): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+
+  lines.forEach((text, line) => {
+    regex.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(text)) !== null) {
+      matches.push({ line, start: match.index, end: match.index + match[0].length });
+      // Empty matches (e.g. `^`) would otherwise match at the same place forever
+      if (match[0].length === 0) regex.lastIndex++;
+    }
+  });
+
+  return matches;
+}
+
+function applyOffset(lines: string[], match: SearchMatch, offset: SearchOffset): CursorPosition {
+  if (offset.type === 'line') {
+    const line = Math.max(0, Math.min(lines.length - 1, match.line + offset.amount));
+    const col = lines[line].search(/\S/);
+    return { line, col: col === -1 ? 0 : col };
+  }
+
+  const base = offset.type === 'end' ? Math.max(match.start, match.end - 1) : match.start;
+  const maxCol = Math.max(0, lines[match.line].length - 1);
+  return { line: match.line, col: Math.max(0, Math.min(maxCol, base + offset.amount)) };
+}
+
+function comparePositions(a: CursorPosition, b: CursorPosition): number {
+  return a.line - b.line || a.col - b.col;
+}
+
+/**
+ * The next match after `from` (or before it when searching backward),
+ * wrapping around the buffer. With a line offset the match position decides
+ * what counts as "after"; otherwise the position the cursor would land on.
+ */
+export function findNextMatch(
+  lines: string[],
+  regex: RegExp,
+  from: CursorPosition,
+  forward: boolean,
+  offset: SearchOffset
+): SearchResult | null {
+  const candidates = findMatches(lines, regex).map((match) => ({
+    match,
+    target: applyOffset(lines, match, offset),
+  }));
+  if (candidates.length === 0) return null;
+
+  const position = (candidate: { match: SearchMatch; target: CursorPosition }) =>
+    offset.type === 'line' ? { line: candidate.match.line, col: candidate.match.start } : candidate.target;
+
+  if (forward) {
+    const next = candidates.find((candidate) => comparePositions(position(candidate), from) > 0);
+    return next ? { ...next, wrapped: false } : { ...candidates[0], wrapped: true };
+  }
+
+  const previous = [...candidates].reverse().find((candidate) => comparePositions(position(candidate), from) < 0);
+  return previous ? { ...previous, wrapped: false } : { ...candidates[candidates.length - 1], wrapped: true };
+}
@@ -0,0 +1,388 @@
+import { CursorPosition, TextRange } from './types';
+
+/**
+ * Text objects (`iw`, `a(`, `it`, ...). Each finder returns the range the
+ * object covers around the cursor, or null when there is no such object.
+ * Characterwise ranges use an exclusive end, like every other TextRange.
+ */
+
+const BRACKET_PAIRS: Record<string, [string, string]> = {
+  '(': ['(', ')'],
+  ')': ['(', ')'],
+  b: ['(', ')'],
+  '{': ['{', '}'],
+  '}': ['{', '}'],
+  B: ['{', '}'],
+  '[': ['[', ']'],
+  ']': ['[', ']'],
+  '<': ['<', '>'],
+  '>': ['<', '>'],
+};
+
+const QUOTES = ['"', '\'', '`'];
+
+export function isBracketObject(object: string): boolean {
+  return object in BRACKET_PAIRS;
+}
+
+export function selectTextObject(
+  lines: string[],
+  cursor: CursorPosition,
+  object: string,
+  around: boolean,
+  count: number = 1
+): TextRange | null {
+  if (object === 'w' || object === 'W') {
+    return selectWord(lines, cursor, around, count, object === 'W');
+  }
+  if (object === 's') {
+    return selectSentence(lines, cursor, around);
+  }
+  if (object === 'p') {
+    return selectParagraph(lines, cursor, around, count);
+  }
+  if (object === 't') {
+    return selectTag(lines, cursor, around, count);
+  }
+  if (QUOTES.includes(object)) {
+    return selectQuote(lines, cursor, object, around);
+  }
+  if (BRACKET_PAIRS[object]) {
+    const [open, close] = BRACKET_PAIRS[object];
+    return selectBracket(lines, cursor, open, close, around, count);
+  }
+  return null;
+}
+
+// Offsets into the buffer joined with '\n', for objects that can span lines
+
+function toOffset(lines: string[], pos: CursorPosition): number {
+  let offset = 0;
+  for (let i = 0; i < pos.line; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset + pos.col;
+}
+
+function toPosition(lines: string[], offset: number): CursorPosition {
+  let line = 0;
+  while (line < lines.length - 1 && offset > lines[line].length) {
+    offset -= lines[line].length + 1;
+    line++;
+  }
+  return { line, col: offset };
+}
+
+function charRange(lines: string[], start: number, end: number): TextRange {
+  return { start: toPosition(lines, start), end: toPosition(lines, end), linewise: false };
+}
+
+function charClass(ch: string, bigWord: boolean): number {
+  if (/\s/.test(ch)) return 0;
+  if (bigWord) return 1;
+  return /\w/.test(ch) ? 2 : 1;
+}
+
+function selectWord(
+  lines: string[],
+  cursor: CursorPosition,
+  around: boolean,
+  count: number,
+  bigWord: boolean
+): TextRange | null {
+  const text = lines[cursor.line];
+  if (text.length === 0) return null;
+
+  const col = Math.min(cursor.col, text.length - 1);
+  const classAt = (i: number) => charClass(text[i], bigWord);
+
+  // A "run" is a maximal stretch of one character class
+  const runEnd = (from: number) => {
+    let i = from;
+    while (i < text.length && classAt(i) === classAt(from)) i++;
+    return i;
+  };
+
+  let start = col;
+  while (start > 0 && classAt(start - 1) === classAt(col)) start--;
+  let end = runEnd(col);
+
+  if (!around) {
+    for (let i = 1; i < count && end < text.length; i++) {
+      end = runEnd(end);
+    }
+    return { start: { line: cursor.line, col: start }, end: { line: cursor.line, col: end }, linewise: false };
+  }
+
+  if (classAt(col) === 0) {
+    // On blanks: the blanks plus the word after them, then more pairs per count
+    for (let i = 0; i < count && end < text.length; i++) {
+      end = runEnd(end);
+      if (i < count - 1 && end < text.length && classAt(end) === 0) end = runEnd(end);
+    }
+  } else {
+    let trailing = false;
+    for (let i = 0; i < count; i++) {
+      if (i > 0 && end < text.length) end = runEnd(end);
+      trailing = end < text.length && classAt(end) === 0;
+      if (trailing) end = runEnd(end);
+    }
+    // Without blanks after the word, take the ones before it
+    if (!trailing) {
+      while (start > 0 && classAt(start - 1) === 0) start--;
+    }
+  }
+
+  return { start: { line: cursor.line, col: start }, end: { line: cursor.line, col: end }, linewise: false };
+}
+
+function selectSentence(lines: string[], cursor: CursorPosition, around: boolean): TextRange | null {
+  // Sentences never cross a blank line, so work within the current paragraph
+  if (!lines[cursor.line].trim()) return null;
+
+  let first = cursor.line;
+  while (first > 0 && lines[first - 1].trim()) first--;
+  let last = cursor.line;
+  while (last < lines.length - 1 && lines[last + 1].trim()) last++;
+
+  const paragraph = lines.slice(first, last + 1).join('\n');
+  const base = toOffset(lines, { line: first, col: 0 });
+  const offset = toOffset(lines, cursor) - base;
+
+  // Split into alternating sentence and blank spans
+  const spans: { start: number; end: number; blank: boolean }[] = [];
+  const sentenceEnd = /[.!?][)\]"']*(?=\s|$)/g;
+  let pos = 0;
+  while (pos < paragraph.length) {
+    const blankMatch = /^\s+/.exec(paragraph.slice(pos));
+    if (blankMatch) {
+      spans.push({ start: pos, end: pos + blankMatch[0].length, blank: true });
+      pos += blankMatch[0].length;
+      continue;
+    }
+    sentenceEnd.lastIndex = pos;
+    const match = sentenceEnd.exec(paragraph);
+    const end = match ? match.index + match[0].length : paragraph.length;
+    spans.push({ start: pos, end, blank: false });
+    pos = end;
+  }
+
+  const index = spans.findIndex((span) => offset >= span.start && offset < span.end);
+  if (index === -1) return null;
+
+  const span = spans[index];
+  let start = span.start;
+  let end = span.end;
+
+  if (around) {
+    if (span.blank) {
+      // Blank plus the sentence after it
+      end = spans[index + 1]?.end ?? end;
+    } else if (spans[index + 1]?.blank) {
+      end = spans[index + 1].end;
+    } else if (spans[index - 1]?.blank) {
+      start = spans[index - 1].start;
+    }
+  }
+
+  return charRange(lines, base + start, base + end);
+}
+
+function selectParagraph(lines: string[], cursor: CursorPosition, around: boolean, count: number): TextRange {
+  const isBlank = (i: number) => !lines[i].trim();
+
+  // A block is a run of blank or of non-blank lines
+  const blockEnd = (from: number) => {
+    let i = from;
+    while (i + 1 < lines.length && isBlank(i + 1) === isBlank(from)) i++;
+    return i;
+  };
+
+  let start = cursor.line;
+  while (start > 0 && isBlank(start - 1) === isBlank(cursor.line)) start--;
+  let end = blockEnd(cursor.line);
+
+  const blocks = around ? count * 2 : count;
+  for (let i = 1; i < blocks && end + 1 < lines.length; i++) {
+    end = blockEnd(end + 1);
+  }
+
+  // `ap` at the end of the buffer takes the blank lines before the paragraph instead
+  if (around && !isBlank(cursor.line) && (end === lines.length - 1 && !isBlank(end))) {
+    while (start > 0 && isBlank(start - 1)) start--;
+  }
+
+  return {
+    start: { line: start, col: 0 },
+    end: { line: end, col: lines[end].length },
+    linewise: true,
+  };
+}
+
+function findUnescaped(text: string, quote: string): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      positions.push(i);
+    }
+  }
+  return positions;
+}
+
+function selectQuote(lines: string[], cursor: CursorPosition, quote: string, around: boolean): TextRange | null {
+  const text = lines[cursor.line];
+  const col = cursor.col;
+  const quotes = findUnescaped(text, quote);
+
+  let open = -1;
+  let close = -1;
+  const onQuote = quotes.indexOf(col);
+
+  if (onQuote !== -1) {
+    // On a quote: quotes before it on the line decide whether it opens or closes
+    if (onQuote % 2 === 0) {
+      open = col;
+      close = quotes[onQuote + 1] ?? -1;
+    } else {
+      open = quotes[onQuote - 1];
+      close = col;
+    }
+  } else {
+    const before = quotes.filter((q) => q < col);
+    const after = quotes.filter((q) => q > col);
+    if (before.length > 0 && after.length > 0) {
+      open = before[before.length - 1];
+      close = after[0];
+    } else if (after.length >= 2) {
+      open = after[0];
+      close = after[1];
+    }
+  }
+
+  if (open === -1 || close === -1) return null;
+
+  let start = open + 1;
+  let end = close;
+  if (around) {
+    start = open;
+    end = close + 1;
+    // Trailing white space is included, or leading when there is none after
+    const trailing = /^[ \t]*/.exec(text.slice(end))![0].length;
+    if (trailing > 0) {
+      end += trailing;
+    } else {
+      while (start > 0 && /[ \t]/.test(text[start - 1])) start--;
+    }
+  }
+
+  return { start: { line: cursor.line, col: start }, end: { line: cursor.line, col: end }, linewise: false };
+}
+
+function selectBracket(
+  lines: string[],
+  cursor: CursorPosition,
+  open: string,
+  close: string,
+  around: boolean,
+  count: number
+): TextRange | null {
+  const text = lines.join('\n');
+  const offset = toOffset(lines, cursor);
+
+  // Walk outwards from the cursor: a bracket under the cursor counts as enclosing it
+  let openPos = text[offset] === close ? offset + 1 : offset;
+  if (text[offset] === open) openPos = offset + 1;
+
+  for (let level = 0; level < count; level++) {
+    let depth = 0;
+    let i = openPos - 1;
+    for (; i >= 0; i--) {
+      if (text[i] === close && i !== offset) depth++;
+      else if (text[i] === open) {
+        if (depth === 0) break;
+        depth--;
+      }
+    }
+    if (i < 0) return null;
+    openPos = i;
+  }
+
+  let depth = 0;
+  let closePos = openPos + 1;
+  for (; closePos < text.length; closePos++) {
+    if (text[closePos] === open) depth++;
+    else if (text[closePos] === close) {
+      if (depth === 0) break;
+      depth--;
+    }
+  }
+  if (closePos >= text.length) return null;
+
+  if (around) {
+    return charRange(lines, openPos, closePos + 1);
+  }
+
+  const start = toPosition(lines, openPos + 1);
+  const end = toPosition(lines, closePos);
+
+  // A block whose brackets sit on their own lines is selected as whole lines
+  const openAtEol = start.col === lines[start.line].length && start.line < end.line;
+  const closeAfterIndent = !lines[end.line].slice(0, end.col).trim();
+  if (openAtEol && closeAfterIndent) {
+    if (end.line - start.line < 2) {
+      return charRange(lines, openPos + 1, openPos + 1);
+    }
+    return {
+      start: { line: start.line + 1, col: 0 },
+      end: { line: end.line - 1, col: lines[end.line - 1].length },
+      linewise: true,
+    };
+  }
+
+  return { start, end, linewise: false };
+}
+
+function selectTag(lines: string[], cursor: CursorPosition, around: boolean, count: number): TextRange | null {
+  const text = lines.join('\n');
+  const offset = toOffset(lines, cursor);
+  const tagPattern = /<(\/?)([A-Za-z][\w:.-]*)[^>]*?(\/?)>/g;
+
+  // Pair up opening and closing tags, innermost first
+  const pairs: { openStart: number; openEnd: number; closeStart: number; closeEnd: number }[] = [];
+  const stack: { name: string; start: number; end: number }[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(text)) !== null) {
+    const [whole, closing, name, selfClosing] = match;
+    if (selfClosing) continue;
+
+    if (!closing) {
+      stack.push({ name, start: match.index, end: match.index + whole.length });
+      continue;
+    }
+
+    const openIndex = stack.map((tag) => tag.name).lastIndexOf(name);
+    if (openIndex === -1) continue;
+    const openTag = stack[openIndex];
+    stack.length = openIndex;
+    pairs.push({
+      openStart: openTag.start,
+      openEnd: openTag.end,
+      closeStart: match.index,
+      closeEnd: match.index + whole.length,
+    });
+  }
+
+  const enclosing = pairs
+    .filter((pair) => pair.openStart <= offset && offset < pair.closeEnd)
+    .sort((a, b) => b.openStart - a.openStart);
+
+  const pair = enclosing[count - 1];
+  if (!pair) return null;
+
+  return around
+    ? charRange(lines, pair.openStart, pair.closeEnd)
+    : charRange(lines, pair.openEnd, pair.closeStart);
+}
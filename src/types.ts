@@ -1,4 +1,4 @@
-export type VimMode = 'normal' | 'insert' | 'visual' | 'command';
+export type VimMode = 'normal' | 'insert' | 'replace' | 'visual' | 'visual-line' | 'visual-block' | 'command';
 
 export interface CursorPosition {
   line: number;
@@ -8,6 +8,35 @@ export interface CursorPosition {
 export interface Selection {
   start: CursorPosition;
   end: CursorPosition;
+  // A block selection extended with `$` reaches the end of every line
+  toLineEnd?: boolean;
+}
+
+// A span of text an operator acts on; `end` is exclusive for characterwise ranges
+export interface TextRange {
+  start: CursorPosition;
+  end: CursorPosition;
+  linewise: boolean;
+}
+
+// A match of the search pattern on one line; `end` is exclusive
+export interface SearchMatch {
+  line: number;
+  start: number;
+  end: number;
+}
+
+// Multi-line output of commands such as :registers, shown until the next key
+export interface OutputPanel {
+  title: string;
+  lines: string[];
+}
+
+// The lines on screen: `height` lines from `top`, keeping `scrolloff` lines around the cursor
+export interface Viewport {
+  top: number;
+  height: number;
+  scrolloff: number;
 }
 
 export interface EditorState {
@@ -17,8 +46,28 @@ export interface EditorState {
   selection: Selection | null;
   commandBuffer: string;
   registers: Record<string, string>;
+  // Positions of marks by name: `ma` sets "a", jumps set "'"
+  marks: Record<string, CursorPosition>;
   lastSearch: string;
+  // Matches of the last search, or of the pattern being typed, for highlighting
+  searchMatches: SearchMatch[];
   message: string;
+  // Register a macro is being recorded into (`qa` ... `q`), shown in the status line
+  recordingRegister: string | null;
+  output: OutputPanel | null;
+  viewport: Viewport;
+}
+
+// One key typed into the engine, as a recording keeps it
+export interface KeyLogEntry {
+  // As a token: `x`, `Escape`, `<C-r>`
+  key: string;
+  modeBefore: VimMode;
+  modeAfter: VimMode;
+  // Hash of the buffer, cursor and mode the key left, so a replay can tell it is still in step
+  stateHash: string;
+  // Milliseconds since the epoch
+  time: number;
 }
 
 export interface LessonStep {
@@ -27,6 +76,19 @@ export interface LessonStep {
   validate: (state: EditorState, prevState: EditorState | null) => boolean;
   initialContent?: string[];
   initialCursor?: CursorPosition;
+  // Keys the editor takes during the step, as tokens (`j`, `Escape`, `<C-d>`); any key when unset
+  allowedKeys?: string[];
+  // Buffer (and cursor) the step asks for; the task panel shows how far off the learner is
+  target?: StepTarget;
+  // Shortest known keys for the step, as tokens; shown once the lesson is done
+  solution?: string[];
+  // Keystrokes the step should take; the solution's length unless set
+  par?: number;
+}
+
+export interface StepTarget {
+  lines: string[];
+  cursor?: CursorPosition;
 }
 
 export interface Lesson {
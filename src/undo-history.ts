@@ -0,0 +1,126 @@
+import { CursorPosition } from './types';
+
+export interface UndoEntry {
+  before: string[];
+  after: string[];
+  cursorBefore: CursorPosition;
+  cursorAfter: CursorPosition;
+}
+
+export class UndoHistory {
+  private undoStack: UndoEntry[] = [];
+  private redoStack: UndoEntry[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get changeNumber(): number {
+    return this.undoStack.length;
+  }
+
+  push(entry: UndoEntry): void {
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.maxEntries) {
+      this.undoStack.shift();
+    }
+    // A new change makes the undone branch unreachable, like Vim without undo trees
+    this.redoStack = [];
+  }
+
+  undo(): UndoEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  redo(): UndoEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+}
+
+// Index of the first line that differs between two buffers, or -1 if they are equal
+export function firstChangedLine(a: string[], b: string[]): number {
+  const len = Math.max(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    if (a[i] !== b[i]) return i;
+  }
+  return -1;
+}
+
+/**
+ * Follow line numbers through an edit, treating it as one contiguous block of
+ * lines replaced by another. Lines inside the block keep their place in it as
+ * far as the new block reaches, so a line changed in place keeps its number;
+ * the rest map to null. `from` is the first line the edit can have touched,
+ * which settles ambiguous cases such as deleting one of two identical lines.
+ */
+export function lineMapper(before: string[], after: string[], from?: number): (line: number) => number | null {
+  const max = Math.min(before.length, after.length);
+
+  let prefix = 0;
+  while (prefix < Math.min(max, from ?? max) && before[prefix] === after[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < max - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+
+  const replacedLines = after.length - suffix - prefix;
+  return (line) => {
+    if (line < prefix) return line;
+    if (line >= before.length - suffix) return line - before.length + after.length;
+    return line - prefix < replacedLines ? line : null;
+  };
+}
+
+/**
+ * First and last character of the text an edit inserted or changed, for the
+ * `'[` and `']` marks. When lines were only deleted both are the line that
+ * took their place.
+ */
+export function changedSpan(before: string[], after: string[]): { start: CursorPosition; end: CursorPosition } | null {
+  const first = firstChangedLine(before, after);
+  if (first === -1) return null;
+
+  const max = Math.min(before.length, after.length) - first;
+  let suffix = 0;
+  while (suffix < max && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+
+  const lastAfter = after.length - 1 - suffix;
+  const lastBefore = before.length - 1 - suffix;
+  if (lastAfter < first) {
+    const line = Math.min(first, after.length - 1);
+    return { start: { line, col: 0 }, end: { line, col: 0 } };
+  }
+
+  const oldText = before[first] ?? '';
+  const newText = after[first];
+  let startCol = 0;
+  while (startCol < Math.min(oldText.length, newText.length) && oldText[startCol] === newText[startCol]) startCol++;
+
+  const endText = after[lastAfter];
+  let endCol = endText.length - 1;
+  if (lastBefore >= first) {
+    const oldEnd = before[lastBefore];
+    // On a single changed line the common end must not overlap the common start
+    const limit = lastAfter === first && lastBefore === first
+      ? Math.min(oldEnd.length, endText.length) - startCol
+      : Math.min(oldEnd.length, endText.length);
+    let common = 0;
+    while (common < limit && oldEnd[oldEnd.length - 1 - common] === endText[endText.length - 1 - common]) common++;
+    endCol = endText.length - 1 - common;
+  }
+
+  const start = { line: first, col: Math.max(0, Math.min(startCol, newText.length - 1)) };
+  const end = { line: lastAfter, col: Math.max(0, endCol) };
+  if (end.line === start.line && end.col < start.col) end.col = start.col;
+  return { start, end };
+}
@@ -0,0 +1,83 @@
+import { Viewport } from './types';
+
+/**
+ * The window onto the buffer that the renderer draws and that `H`, `M`, `L`
+ * and the scroll commands work with. Like Vim, the view may be scrolled past
+ * the end of the buffer (Ctrl-E, Ctrl-F, `zt`); it only follows the cursor
+ * as far as needed to keep `scrolloff` lines above and below it.
+ */
+
+export const DEFAULT_VIEWPORT: Viewport = { top: 0, height: 20, scrolloff: 5 };
+
+// `scrolloff` can be at most half the window, or the cursor could not move at all
+export function effectiveScrolloff(viewport: Viewport): number {
+  return Math.max(0, Math.min(viewport.scrolloff, Math.floor((viewport.height - 1) / 2)));
+}
+
+// Number of buffer lines shown, fewer than the height near the end of the buffer
+export function visibleLines(viewport: Viewport, lineCount: number): number {
+  return Math.max(1, Math.min(viewport.height, lineCount - viewport.top));
+}
+
+/**
+ * Lines the cursor may be on without scrolling: the visible ones minus
+ * `scrolloff` at each edge, except where that edge is the start or end of
+ * the buffer.
+ */
+export function cursorRange(viewport: Viewport, lineCount: number): { first: number; last: number } {
+  const scrolloff = effectiveScrolloff(viewport);
+  const bottom = viewport.top + visibleLines(viewport, lineCount) - 1;
+  const first = viewport.top === 0 ? 0 : viewport.top + scrolloff;
+  const last = bottom >= lineCount - 1 ? lineCount - 1 : bottom - scrolloff;
+  return { first: Math.min(first, last), last };
+}
+
+// Keep the top within the buffer; the last line may still be scrolled up to the top of the window
+export function clampTop(top: number, lineCount: number): number {
+  return Math.max(0, Math.min(top, lineCount - 1));
+}
+
+/** Scroll as little as possible to bring `line` into view with `scrolloff` around it. */
+export function scrollToLine(viewport: Viewport, line: number, lineCount: number): Viewport {
+  const scrolloff = effectiveScrolloff(viewport);
+  let top = viewport.top;
+
+  if (line - scrolloff < top) {
+    top = line - scrolloff;
+  } else if (line + scrolloff > top + viewport.height - 1) {
+    // Scrolling down for the cursor stops once the last line is at the bottom
+    top = Math.max(top, Math.min(line + scrolloff - viewport.height + 1, lineCount - viewport.height));
+  }
+
+  top = clampTop(top, lineCount);
+  return top === viewport.top ? viewport : { ...viewport, top };
+}
+
+/** `H`, `M` and `L`: the `count`-th line from the top or bottom of the window, or its middle. */
+export function screenLine(viewport: Viewport, lineCount: number, key: string, count: number): number {
+  const { first, last } = cursorRange(viewport, lineCount);
+  const bottom = viewport.top + visibleLines(viewport, lineCount) - 1;
+  const clamp = (line: number) => Math.max(first, Math.min(line, last));
+
+  switch (key) {
+    case 'H':
+      return clamp(viewport.top + count - 1);
+    case 'L':
+      return clamp(bottom - count + 1);
+    default:
+      return viewport.top + Math.floor((bottom - viewport.top) / 2);
+  }
+}
+
+/** `zt`, `zz` and `zb`: the top that puts `line` at the top, middle or bottom of the window. */
+export function topFor(viewport: Viewport, line: number, position: 'top' | 'middle' | 'bottom'): number {
+  const scrolloff = effectiveScrolloff(viewport);
+  switch (position) {
+    case 'top':
+      return Math.max(0, line - scrolloff);
+    case 'middle':
+      return Math.max(0, line - Math.floor((viewport.height - 1) / 2));
+    case 'bottom':
+      return Math.max(0, line + scrolloff - viewport.height + 1);
+  }
+}
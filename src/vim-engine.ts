@@ -1,10 +1,194 @@
-import { CursorPosition, EditorState, Selection } from './types';
+import { CursorPosition, EditorState, KeyLogEntry, SearchMatch, Selection, TextRange, Viewport, VimMode } from './types';
+import { UndoHistory, changedSpan, firstChangedLine, lineMapper } from './undo-history';
+import { isBracketObject, selectTextObject } from './text-objects';
+import {
+  matchBracket,
+  paragraphBackward,
+  paragraphForward,
+  percentLine,
+  sentenceBackward,
+  sentenceForward,
+  wordBackward,
+  wordEnd,
+  wordEndBackward,
+  wordForward,
+} from './motions';
+import {
+  ACTION_ALIASES,
+  KeyCommand,
+  NormalCommand,
+  INSERT_ACTIONS,
+  JUMP_MOTIONS,
+  SEARCH_MOTIONS,
+  Operator,
+  isChangeCommand,
+  parseNormalCommand,
+  parseVisualCommand,
+  writesRegister,
+} from './command-parser';
+import { keyToken, notationToTokens, parseKeyToken, tokensToNotation } from './key-notation';
+import { SearchOffset, SearchResult, compilePattern, findMatches, findNextMatch, parseSearchCommand } from './search';
+import {
+  ExRange,
+  Substitution,
+  expandReplacement,
+  parseExCommand,
+  parseGlobal,
+  parseRegisterCount,
+  parseSubstitute,
+  resolveCommandName,
+  resolveTilde,
+  substituteLine,
+} from './ex-commands';
+import { formatRegisters, isLinewise, isSmallDelete, isValidRegister, isWritableRegister, readRegister, storeRegister } from './registers';
+import { JumpList, adjustMarks, formatMarks, isSettableMark, markKey } from './marks';
+import { VisualMode, blockBounds, isVisualMode, orderSelection, selectedColumns } from './visual';
+import { DEFAULT_VIEWPORT, clampTop, cursorRange, screenLine, scrollToLine, topFor } from './viewport';
+import {
+  displayWidth,
+  indentString,
+  indentWidth,
+  reindentLines,
+  roundShiftLine,
+  shiftLine,
+  tabText,
+} from './indent';
+import { DEFAULT_OPTIONS, VimOptions, applySetCommand, listOptions } from './options';
+import { stateHash } from './hash';
+
+// A change that `.` can replay: the command plus whatever was typed in insert mode
+interface RepeatableChange {
+  command: NormalCommand;
+  insertKeys: string[];
+  // Set for a block `I`, `A` or `c`, which `.` repeats on a block of the same size at the cursor
+  block?: BlockSize;
+}
+
+interface BlockSize {
+  height: number;
+  width: number;
+  toLineEnd: boolean;
+}
+
+interface MotionTarget {
+  target: CursorPosition;
+  linewise: boolean;
+  inclusive: boolean;
+}
+
+// Progress through `:s///c`, which asks about one match at a time
+interface ConfirmSession {
+  regex: RegExp;
+  replacement: string;
+  global: boolean;
+  // Where to look for the next match, and the last line of the range
+  line: number;
+  col: number;
+  end: number;
+  match: RegExpExecArray | null;
+  lineChanged: boolean;
+  substitutions: number;
+  changedLines: number;
+  lastLine: number;
+}
+
+// A block `I`, `A` or `c` in progress: lines `top`-`bottom` get what is typed at `col`
+interface BlockInsert {
+  top: number;
+  bottom: number;
+  col: number;
+  // After `$A` the text goes at the end of every line instead
+  toLineEnd: boolean;
+  // `A` pads lines shorter than the block with spaces
+  pad: boolean;
+  lineCount: number;
+  lineLength: number;
+}
+
+const VISUAL_MODE_KEYS: Record<string, VisualMode> = {
+  v: 'visual',
+  V: 'visual-line',
+  '<C-v>': 'visual-block',
+};
+
+const REVERSED_CHAR_SEARCH: Record<string, string> = { f: 'F', F: 'f', t: 'T', T: 't' };
+
+// Modes where typed characters go into the buffer: inserted, or typed over the text in replace mode
+function isInsertMode(mode: VimMode): mode is 'insert' | 'replace' {
+  return mode === 'insert' || mode === 'replace';
+}
+
+const VISUAL_CASE_OPERATORS: Record<string, 'g~' | 'gu' | 'gU'> = {
+  '~': 'g~',
+  u: 'gu',
+  U: 'gU',
+};
+
+function pluralize(count: number, singular: string, plural: string = singular + 's'): string {
+  return `${count} ${count === 1 ? singular : plural}`;
+}
 
 export class VimEngine {
   private state: EditorState;
   private onStateChange: ((state: EditorState) => void) | null = null;
-  private commandTimeout: number | null = null;
-  private countBuffer: string = '';
+  private pendingKeys: string[] = [];
+  private history: UndoHistory = new UndoHistory();
+  // Buffer as it was when the change currently being built (e.g. an insert session) started
+  private pendingChange: { lines: string[]; cursor: CursorPosition } | null = null;
+  private lineUndo: { line: number; text: string } | null = null;
+  private isLineUndo: boolean = false;
+  private lastChange: RepeatableChange | null = null;
+  private insertSession: RepeatableChange | null = null;
+  // Where the cursor was when insert mode began, for Ctrl-U
+  private insertStart: CursorPosition | null = null;
+  // Replace mode: what each typed character overwrote, so Backspace can put it back.
+  // null marks a character added past the end of the line, '\n' a line break
+  private replacedChars: (string | null)[] = [];
+  // Ctrl-R was typed in insert mode and the register name comes next
+  private insertRegisterPending: boolean = false;
+  // Ctrl-O in insert mode runs one normal-mode command, then goes back to inserting.
+  // Holds the replay depth it was typed at, so keys of a macro the command runs do not end it
+  private oneCommandDepth: number | null = null;
+  private oneCommandMode: 'insert' | 'replace' = 'insert';
+  // Keys fed back in by `.` or a macro are handled silently; one render follows at the end
+  private replayDepth: number = 0;
+  // Set when a command fails, so macro playback stops like it does in Vim
+  private abortReplay: boolean = false;
+  private macroKeys: string[] = [];
+  private lastMacroRegister: string | null = null;
+  // Register named with `"x` for the command being run; null means the unnamed register
+  private register: string | null = null;
+  // Settings changed with :set
+  private options: VimOptions = { ...DEFAULT_OPTIONS };
+  private onOptionsChange: ((options: VimOptions) => void) | null = null;
+  private onKeyLogged: ((entry: KeyLogEntry) => void) | null = null;
+  // Line that only holds the indent autoindent gave it; the indent goes if nothing is typed there
+  private autoIndentLine: number | null = null;
+  private searchForward: boolean = true;
+  private searchOffset: SearchOffset = { type: 'none', amount: 0 };
+  // Cursor when `/` or `?` was typed; incremental search moves away from it and back
+  private searchOrigin: CursorPosition | null = null;
+  // Cleared by :nohlsearch until the next search
+  private highlightSearch: boolean = true;
+  private lastSubstitution: Substitution | null = null;
+  // Last f, F, t or T with its character, for `;` and `,`
+  private lastCharSearch: KeyCommand | null = null;
+  private confirmSession: ConfirmSession | null = null;
+  // Lines Ctrl-D and Ctrl-U scroll; 0 means half the window, a count sets it like Vim's 'scroll'
+  private scrollAmount: number = 0;
+  private jumpList: JumpList = new JumpList();
+  // How the last visual selection was made, for `gv`; its corners are the '< and '> marks
+  private lastVisual: { mode: VisualMode; cursorAtTop: boolean; cursorAtLeft: boolean; toLineEnd: boolean } | null = null;
+  private blockInsert: BlockInsert | null = null;
+  // Visual mode to return to when a search typed in it ends
+  private visualSearch: VisualMode | null = null;
+  // An operator waiting for the search typed after it, as in `d/foo<CR>`
+  private searchOperator: NormalCommand | null = null;
+  // Buffer as it was when marks were last moved to follow their lines
+  private markedLines: string[];
+  private runningGlobal: boolean = false;
+  // Keys run by `:normal` are undone together with the Ex command that ran them
+  private exNormalDepth: number = 0;
 
   constructor(initialContent: string[] = ['']) {
     this.state = {
@@ -14,9 +198,15 @@ export class VimEngine {
       selection: null,
       commandBuffer: '',
       registers: { '"': '' },
+      marks: {},
       lastSearch: '',
+      searchMatches: [],
       message: '',
+      recordingRegister: null,
+      output: null,
+      viewport: { ...DEFAULT_VIEWPORT },
     };
+    this.markedLines = [...initialContent];
   }
 
   getState(): EditorState {
@@ -34,6 +224,59 @@ export class VimEngine {
     this.state.mode = 'normal';
     this.state.selection = null;
     this.state.commandBuffer = '';
+    this.state.output = null;
+    this.history.clear();
+    this.pendingChange = null;
+    this.lineUndo = null;
+    this.pendingKeys = [];
+    this.insertSession = null;
+    this.insertStart = null;
+    this.autoIndentLine = null;
+    this.replacedChars = [];
+    this.insertRegisterPending = false;
+    this.oneCommandDepth = null;
+    this.confirmSession = null;
+    this.lastVisual = null;
+    this.blockInsert = null;
+    this.visualSearch = null;
+    this.searchOperator = null;
+    this.state.marks = {};
+    this.jumpList.clear();
+    this.markedLines = [...lines];
+    this.state.viewport = { ...this.state.viewport, top: 0 };
+    this.notifyChange();
+  }
+
+  /**
+   * Forget what earlier editing left to reuse: registers, the last search,
+   * and what `.`, `;`, `&` and `@@` would repeat. Scored attempts start from
+   * this, as if Vim had just been opened.
+   */
+  resetSession(): void {
+    const fileName = this.state.registers['%'];
+    this.state.registers = fileName === undefined ? { '"': '' } : { '"': '', '%': fileName };
+    this.state.recordingRegister = null;
+    this.state.lastSearch = '';
+    this.state.searchMatches = [];
+    this.state.message = '';
+    this.macroKeys = [];
+    this.lastMacroRegister = null;
+    this.lastChange = null;
+    this.lastCharSearch = null;
+    this.lastSubstitution = null;
+    this.register = null;
+    this.searchForward = true;
+    this.searchOffset = { type: 'none', amount: 0 };
+    this.searchOrigin = null;
+    this.highlightSearch = true;
+    this.scrollAmount = 0;
+  }
+
+  // Drop a half-typed command, like the `z` of `zz`, so the next key starts a new one
+  cancelPendingKeys(): void {
+    if (this.pendingKeys.length === 0) return;
+    this.pendingKeys = [];
+    this.state.commandBuffer = '';
     this.notifyChange();
   }
 
@@ -42,11 +285,51 @@ export class VimEngine {
     this.notifyChange();
   }
 
+  // Shown by the read-only "% register
+  setFileName(name: string): void {
+    this.state.registers['%'] = name;
+  }
+
+  getOptions(): VimOptions {
+    return { ...this.options };
+  }
+
+  setOptions(options: Partial<VimOptions>): void {
+    this.applyOptions({ ...this.options, ...options });
+    this.notifyChange();
+  }
+
+  // Called when :set changes an option, so the settings can be kept
+  onOptionsSet(callback: (options: VimOptions) => void): void {
+    this.onOptionsChange = callback;
+  }
+
+  private applyOptions(options: VimOptions): void {
+    this.options = options;
+    this.state.viewport = { ...this.state.viewport, scrolloff: options.scrolloff };
+  }
+
+  // Set by the renderer from the size of the editor
+  setViewportHeight(height: number): void {
+    if (height === this.state.viewport.height) return;
+    this.state.viewport = { ...this.state.viewport, height: Math.max(1, height) };
+    this.notifyChange();
+  }
+
   onChange(callback: (state: EditorState) => void): void {
     this.onStateChange = callback;
   }
 
+  // Told about every key typed, but not the keys a macro, `.` or `:normal` plays back
+  onKeyLog(callback: (entry: KeyLogEntry) => void): void {
+    this.onKeyLogged = callback;
+  }
+
   private notifyChange(): void {
+    this.state.viewport = scrollToLine(this.state.viewport, this.state.cursor.line, this.state.lines.length);
+    if (this.replayDepth > 0) return;
+
+    this.state.searchMatches = this.findSearchMatches();
     if (this.onStateChange) {
       this.onStateChange(this.getState());
     }
@@ -55,7 +338,7 @@ export class VimEngine {
   private clampCursor(cursor: CursorPosition): CursorPosition {
     const line = Math.max(0, Math.min(cursor.line, this.state.lines.length - 1));
     const lineLength = this.state.lines[line]?.length || 0;
-    const maxCol = this.state.mode === 'insert' ? lineLength : Math.max(0, lineLength - 1);
+    const maxCol = isInsertMode(this.state.mode) ? lineLength : Math.max(0, lineLength - 1);
     const col = Math.max(0, Math.min(cursor.col, maxCol));
     return { line, col };
   }
@@ -69,223 +352,504 @@ export class VimEngine {
   }
 
   handleKeyDown(e: KeyboardEvent): boolean {
-    const key = e.key;
-    const ctrl = e.ctrlKey;
+    // Modifier keys arrive on their own before the key they modify
+    if (['Shift', 'Control', 'Alt', 'Meta', 'CapsLock'].includes(e.key)) {
+      return false;
+    }
+    if (this.replayDepth > 0 || !this.onKeyLogged) {
+      return this.processKey(e);
+    }
+
+    const modeBefore = this.state.mode;
+    const handled = this.processKey(e);
+    // Ctrl-[ is logged as the Escape it stands for
+    const key = e.ctrlKey && e.key === '[' ? 'Escape' : keyToken(e.key, e.ctrlKey);
+    this.onKeyLogged({ key, modeBefore, modeAfter: this.state.mode, stateHash: stateHash(this.state), time: Date.now() });
+    return handled;
+  }
+
+  private processKey(e: KeyboardEvent): boolean {
+    // Ctrl-[ is the same key as Escape in a terminal
+    const isCtrlBracket = e.ctrlKey && e.key === '[';
+    const key = isCtrlBracket ? 'Escape' : e.key;
+    const ctrl = isCtrlBracket ? false : e.ctrlKey;
     const shift = e.shiftKey;
+    const modeBefore = this.state.mode;
 
     // Prevent browser defaults for vim keys
-    if (this.state.mode !== 'insert' || e.key === 'Escape') {
+    if (!isInsertMode(this.state.mode) || e.key === 'Escape') {
       if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Backspace', 'Tab'].includes(key)) {
         e.preventDefault();
       }
     }
 
+    // Any key closes an output panel; Enter, Escape and Space only close it
+    if (this.state.output) {
+      this.state.output = null;
+      if (['Enter', 'Escape', ' '].includes(key)) {
+        this.notifyChange();
+        return true;
+      }
+    }
+
+    if (!this.pendingChange) {
+      this.pendingChange = { lines: [...this.state.lines], cursor: { ...this.state.cursor } };
+    }
+
+    if (this.state.recordingRegister && this.replayDepth === 0) {
+      this.macroKeys.push(keyToken(key, ctrl));
+    }
+
+    if (this.insertSession && isInsertMode(this.state.mode)) {
+      this.insertSession.insertKeys.push(keyToken(key, ctrl));
+    }
+
+    let handled: boolean;
     switch (this.state.mode) {
       case 'normal':
-        return this.handleNormalMode(key, ctrl, shift, e);
+        handled = this.handleNormalMode(key, ctrl, shift, e);
+        break;
       case 'insert':
-        return this.handleInsertMode(key, ctrl, e);
+      case 'replace':
+        handled = this.handleInsertMode(key, ctrl, e);
+        break;
       case 'visual':
-        return this.handleVisualMode(key, ctrl, shift, e);
+      case 'visual-line':
+      case 'visual-block':
+        handled = this.handleVisualMode(key, ctrl, shift, e);
+        break;
       case 'command':
-        return this.handleCommandMode(key, e);
+        handled = this.handleCommandMode(key, e);
+        break;
+    }
+
+    if (isInsertMode(this.state.mode) && !isInsertMode(modeBefore)) {
+      this.insertStart = { ...this.state.cursor };
+      this.replacedChars = [];
+    }
+    if (this.oneCommandDepth === this.replayDepth && !isInsertMode(modeBefore)) {
+      this.finishOneCommand();
+    }
+
+    this.followMarks();
+    this.commitPendingChange();
+    return handled;
+  }
+
+  // Keep marks and the jump list on their lines as lines are added and removed above them
+  private followMarks(): void {
+    const first = firstChangedLine(this.markedLines, this.state.lines);
+    if (first === -1) return;
+
+    const mapLine = lineMapper(this.markedLines, this.state.lines, first);
+    adjustMarks(this.state.marks, mapLine);
+    this.jumpList.adjust(mapLine);
+    this.markedLines = [...this.state.lines];
+  }
+
+  /**
+   * Everything that happens between two returns to normal/visual mode is one
+   * undoable unit, so an insert session or a `:s` undoes in a single step.
+   */
+  private commitPendingChange(): void {
+    if (!this.pendingChange || this.exNormalDepth > 0 || isInsertMode(this.state.mode) || this.state.mode === 'command') {
+      return;
+    }
+
+    const { lines, cursor } = this.pendingChange;
+    const isLineUndo = this.isLineUndo;
+    this.pendingChange = null;
+    this.isLineUndo = false;
+
+    const span = changedSpan(lines, this.state.lines);
+    if (!span) return;
+
+    this.state.marks['['] = span.start;
+    this.state.marks[']'] = span.end;
+    this.state.marks['.'] = span.end;
+    this.history.push({
+      before: lines,
+      after: [...this.state.lines],
+      cursorBefore: cursor,
+      cursorAfter: { ...this.state.cursor },
+    });
+
+    if (!isLineUndo) {
+      this.trackLineUndo(lines, this.state.lines);
     }
   }
 
-  private handleNormalMode(key: string, _ctrl: boolean, _shift: boolean, _e: KeyboardEvent): boolean {
-    // Clear command buffer timeout
-    if (this.commandTimeout) {
-      clearTimeout(this.commandTimeout);
-      this.commandTimeout = null;
+  private trackLineUndo(before: string[], after: string[]): void {
+    const line = firstChangedLine(before, after);
+    const singleLine = before.length === after.length &&
+      before.slice(line + 1).every((text, i) => text === after[line + 1 + i]);
+
+    if (!singleLine) {
+      this.lineUndo = null;
+    } else if (!this.lineUndo || this.lineUndo.line !== line) {
+      this.lineUndo = { line, text: before[line] };
     }
+  }
 
-    // Handle count prefix
-    if (/^[1-9]$/.test(key) || (this.countBuffer && /^[0-9]$/.test(key))) {
-      this.countBuffer += key;
-      this.state.commandBuffer = this.countBuffer;
-      this.notifyChange();
-      return true;
+  private undo(count: number): void {
+    this.pendingChange = null;
+    let undone = 0;
+
+    for (let i = 0; i < count; i++) {
+      const entry = this.history.undo();
+      if (!entry) break;
+      this.restoreBuffer(entry.before, entry.after, entry.cursorBefore);
+      undone++;
     }
 
-    const count = parseInt(this.countBuffer) || 1;
-    this.countBuffer = '';
+    this.lineUndo = null;
+    this.state.message = undone === 0
+      ? 'Already at oldest change'
+      : `${undone} change(s); before #${this.history.changeNumber + 1}`;
+  }
 
-    // Handle multi-char commands
-    const buffer = this.state.commandBuffer + key;
+  private redo(count: number): void {
+    this.pendingChange = null;
+    let redone = 0;
 
-    // Two-char commands
-    if (buffer === 'dd') {
-      this.deleteLine(count);
-      this.state.commandBuffer = '';
-      this.notifyChange();
-      return true;
+    for (let i = 0; i < count; i++) {
+      const entry = this.history.redo();
+      if (!entry) break;
+      this.restoreBuffer(entry.after, entry.before, entry.cursorBefore);
+      redone++;
     }
 
-    if (buffer === 'yy') {
-      this.yankLine(count);
-      this.state.commandBuffer = '';
-      this.notifyChange();
-      return true;
+    this.lineUndo = null;
+    this.state.message = redone === 0
+      ? 'Already at newest change'
+      : `${redone} change(s); after #${this.history.changeNumber}`;
+  }
+
+  /**
+   * Replace the buffer and put the cursor where Vim does: on the topmost changed
+   * line, keeping the original column when the change started on that line.
+   */
+  private restoreBuffer(lines: string[], replaced: string[], cursor: CursorPosition): void {
+    let line = Math.max(0, firstChangedLine(lines, replaced));
+    const removed = replaced.length - lines.length;
+
+    // When lines only disappear (undoing `o` or `p`), land on the line above them
+    if (removed > 0 && lines.slice(line).every((text, i) => text === replaced[line + removed + i])) {
+      line = Math.max(0, line - 1);
     }
 
-    if (buffer === 'cc') {
-      this.changeLine();
-      this.state.commandBuffer = '';
-      this.notifyChange();
-      return true;
+    this.state.lines = [...lines];
+    this.state.selection = null;
+
+    if (cursor.line === line) {
+      this.state.cursor = this.clampCursor({ line, col: cursor.col });
+    } else {
+      const firstNonSpace = (this.state.lines[line] || '').search(/\S/);
+      this.state.cursor = this.clampCursor({ line, col: firstNonSpace === -1 ? 0 : firstNonSpace });
     }
+  }
 
-    if (buffer === 'gg') {
-      this.state.cursor = { line: 0, col: 0 };
-      this.state.commandBuffer = '';
-      this.notifyChange();
-      return true;
+  private undoLine(): void {
+    if (!this.lineUndo || this.lineUndo.line >= this.state.lines.length) {
+      return;
     }
 
-    if (buffer === 'dw') {
-      this.deleteWord(count);
-      this.state.commandBuffer = '';
+    const { line, text } = this.lineUndo;
+    this.lineUndo = { line, text: this.state.lines[line] };
+    this.state.lines[line] = text;
+    this.state.cursor = this.clampCursor({
+      line,
+      col: this.state.cursor.line === line ? this.state.cursor.col : 0,
+    });
+    // U is itself a change, but it must not reset the line it toggles
+    this.isLineUndo = true;
+  }
+
+  private handleNormalMode(key: string, ctrl: boolean, _shift: boolean, _e: KeyboardEvent): boolean {
+    if (key === 'q' && !ctrl && this.state.recordingRegister && this.pendingKeys.length === 0) {
+      this.stopRecording();
       this.notifyChange();
       return true;
     }
 
-    if (buffer === 'cw') {
-      this.changeWord();
-      this.state.commandBuffer = '';
+    this.pendingKeys.push(keyToken(key, ctrl));
+    const result = parseNormalCommand(this.pendingKeys);
+
+    if (result.status === 'pending') {
+      this.state.commandBuffer = this.pendingKeys.join('');
       this.notifyChange();
       return true;
     }
 
-    if (buffer === 'di"' || buffer === 'di\'') {
-      this.deleteInQuotes(buffer[2]);
-      this.state.commandBuffer = '';
+    const wasPending = this.pendingKeys.length > 1;
+    this.pendingKeys = [];
+    this.state.commandBuffer = '';
+
+    if (result.status === 'invalid') {
+      this.abortReplay = true;
       this.notifyChange();
-      return true;
+      return wasPending;
     }
 
-    if (buffer === 'ci"' || buffer === 'ci\'') {
-      this.changeInQuotes(buffer[2]);
-      this.state.commandBuffer = '';
-      this.notifyChange();
-      return true;
+    this.runNormalCommand(result.command);
+    this.notifyChange();
+    return true;
+  }
+
+  private runNormalCommand(command: NormalCommand): void {
+    if (command.action?.key === '.') {
+      this.repeatLastChange(command.count);
+      return;
     }
 
-    // Waiting for second char
-    if (['d', 'c', 'y', 'g', 'f', 'F', 't', 'T', 'r'].includes(key) && buffer === key) {
-      this.state.commandBuffer = key;
-      this.commandTimeout = window.setTimeout(() => {
-        this.state.commandBuffer = '';
-        this.notifyChange();
-      }, 1000);
-      this.notifyChange();
-      return true;
+    if (writesRegister(command) && this.rejectReadOnlyRegister(command.register)) return;
+
+    this.register = command.register;
+    this.executeNormalCommand(command);
+    this.register = null;
+    // An operator on a search is recorded once the search is typed
+    if (isChangeCommand(command) && !this.searchOperator) {
+      this.recordChange(command);
     }
+  }
 
-    // Handle 'r' replace
-    if (this.state.commandBuffer === 'r' && key.length === 1) {
-      const line = this.getCurrentLine();
-      const col = this.state.cursor.col;
-      this.setCurrentLine(line.substring(0, col) + key + line.substring(col + 1));
-      this.state.commandBuffer = '';
-      this.notifyChange();
-      return true;
+  // Changes that continue in insert mode are recorded when the insert session ends
+  private recordChange(command: NormalCommand): void {
+    if (isInsertMode(this.state.mode)) {
+      this.insertSession = { command, insertKeys: [] };
+    } else {
+      this.lastChange = { command, insertKeys: [] };
     }
+  }
 
-    // Handle 'f' find char
-    if (this.state.commandBuffer === 'f' && key.length === 1) {
-      const line = this.getCurrentLine();
-      const idx = line.indexOf(key, this.state.cursor.col + 1);
-      if (idx !== -1) {
-        this.state.cursor.col = idx;
+  /**
+   * Called on the Escape that ends an insert session: applies an insert count
+   * (`3ihi<Esc>`) and remembers the whole change for `.`.
+   */
+  private finishInsertSession(): void {
+    const session = this.insertSession;
+    if (!session) return;
+    this.insertSession = null;
+
+    const { command, insertKeys } = session;
+    this.state.registers['.'] = this.typedText(insertKeys.slice(0, -1));
+
+    const action = command.action?.key;
+    if (action && INSERT_ACTIONS.includes(action)) {
+      // Drop the Escape that ended the session; `o` and `O` repeat their line break too
+      const typed = insertKeys.slice(0, -1);
+      const repeated = action === 'o' || action === 'O' ? ['Enter', ...typed] : typed;
+      for (let i = 1; i < (command.count ?? 1); i++) {
+        repeated.forEach((token) => this.feedKey(token));
       }
-      this.state.commandBuffer = '';
-      this.notifyChange();
-      return true;
     }
 
-    // Handle 'F' find char backwards
-    if (this.state.commandBuffer === 'F' && key.length === 1) {
-      const line = this.getCurrentLine();
-      const idx = line.lastIndexOf(key, this.state.cursor.col - 1);
-      if (idx !== -1) {
-        this.state.cursor.col = idx;
+    this.lastChange = session;
+  }
+
+  // Text typed by a sequence of insert-mode keys, for the ". register
+  private typedText(tokens: string[]): string {
+    let text = '';
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token === 'Enter') text += '\n';
+      else if (token === 'Tab') text += tabText(0, this.options);
+      else if (token === 'Backspace') text = text.slice(0, -1);
+      else if (token === '<C-w>') text = text.replace(/(\w+|[^\w\s]+)?\s*$/, '');
+      else if (token === '<C-u>') text = text.substring(0, text.lastIndexOf('\n') + 1);
+      else if (token === '<C-r>') text += readRegister(this.state.registers, tokens[++i] ?? null);
+      else if (token.length === 1) text += token;
+    }
+    return text;
+  }
+
+  private repeatLastChange(count: number | null): void {
+    const change = this.lastChange;
+    if (!change) return;
+
+    this.replayDepth++;
+    if (change.block) {
+      this.repeatBlockChange(change.command, change.block);
+    } else {
+      this.runNormalCommand({ ...change.command, count: count ?? change.command.count });
+    }
+    change.insertKeys.forEach((token) => this.feedKey(token));
+    this.replayDepth--;
+  }
+
+  // Select a block of the recorded size at the cursor and run the visual command on it again
+  private repeatBlockChange(command: NormalCommand, block: BlockSize): void {
+    const { line, col } = this.state.cursor;
+    const bottom = Math.min(line + block.height - 1, this.state.lines.length - 1);
+    this.state.mode = 'visual-block';
+    this.state.selection = { start: { line, col }, end: { line: bottom, col: col + block.width - 1 }, toLineEnd: block.toLineEnd };
+    this.register = command.register;
+    this.executeVisualCommand(command);
+    this.register = null;
+  }
+
+  // `".yy` fails like Vim does: ". "% ": and "/ can be put but not written
+  private rejectReadOnlyRegister(register: string | null): boolean {
+    if (isWritableRegister(register)) return false;
+    this.state.message = `E354: Invalid register name: '${register}'`;
+    this.abortReplay = true;
+    return true;
+  }
+
+  private startRecording(register: string): void {
+    if (!/^[a-zA-Z0-9"]$/.test(register)) {
+      this.abortReplay = true;
+      return;
+    }
+    this.state.recordingRegister = register;
+    this.macroKeys = [];
+  }
+
+  private stopRecording(): void {
+    const register = this.state.recordingRegister!;
+    const name = register.toLowerCase();
+    // The `q` that stopped the recording is not part of the macro
+    const text = tokensToNotation(this.macroKeys.slice(0, -1));
+
+    // `qA` appends to register a
+    this.state.registers[name] = register === name ? text : (this.state.registers[name] || '') + text;
+    this.state.recordingRegister = null;
+    this.macroKeys = [];
+  }
+
+  private playMacro(register: string, count: number): void {
+    const name = register === '@' ? this.lastMacroRegister : register.toLowerCase();
+    const text = name ? this.state.registers[name] : '';
+    if (!name || !text) {
+      this.abortReplay = true;
+      return;
+    }
+
+    this.lastMacroRegister = name;
+    this.abortReplay = false;
+    const tokens = notationToTokens(text);
+
+    for (let i = 0; i < count && !this.abortReplay; i++) {
+      for (const token of tokens) {
+        if (this.abortReplay) break;
+        this.feedKey(token);
       }
-      this.state.commandBuffer = '';
-      this.notifyChange();
-      return true;
     }
+  }
 
-    this.state.commandBuffer = '';
+  private feedKey(token: string): void {
+    // A macro that calls itself ends when a motion fails, or here at the latest
+    if (this.replayDepth > 200) {
+      this.abortReplay = true;
+      return;
+    }
 
-    // Single char commands
-    switch (key) {
-      // Movement
-      case 'h':
-      case 'ArrowLeft':
-        for (let i = 0; i < count; i++) {
-          this.state.cursor.col = Math.max(0, this.state.cursor.col - 1);
-        }
-        break;
+    const { key, ctrl } = parseKeyToken(token);
+    this.replayDepth++;
+    this.handleKeyDown(new KeyboardEvent('keydown', { key, ctrlKey: ctrl }));
+    this.replayDepth--;
+  }
 
-      case 'j':
-      case 'ArrowDown':
-        for (let i = 0; i < count; i++) {
-          this.state.cursor.line = Math.min(this.state.lines.length - 1, this.state.cursor.line + 1);
-        }
-        this.state.cursor = this.clampCursor(this.state.cursor);
-        break;
+  private executeNormalCommand(command: NormalCommand): void {
+    const { count, operator, motion, action } = command;
 
-      case 'k':
-      case 'ArrowUp':
-        for (let i = 0; i < count; i++) {
-          this.state.cursor.line = Math.max(0, this.state.cursor.line - 1);
-        }
-        this.state.cursor = this.clampCursor(this.state.cursor);
-        break;
+    if (operator && motion && SEARCH_MOTIONS.includes(motion.key)) {
+      this.searchOperator = command;
+      this.state.mode = 'command';
+      this.state.commandBuffer = motion.key;
+      this.searchOrigin = { ...this.state.cursor };
+      return;
+    }
 
-      case 'l':
-      case 'ArrowRight':
-        for (let i = 0; i < count; i++) {
-          const maxCol = Math.max(0, this.getCurrentLine().length - 1);
-          this.state.cursor.col = Math.min(maxCol, this.state.cursor.col + 1);
-        }
-        break;
+    if (operator) {
+      const range = this.resolveOperatorRange(command);
+      if (range) {
+        this.applyOperator(operator, range, isSmallDelete(range, motion?.key));
+      } else {
+        this.abortReplay = true;
+      }
+      return;
+    }
 
-      case 'w':
-        for (let i = 0; i < count; i++) {
-          this.moveWordForward();
+    if (motion) {
+      const result = this.resolveMotion(motion, count);
+      if (result) {
+        if (JUMP_MOTIONS.includes(motion.key)) this.recordJump();
+        this.state.cursor = this.clampCursor(result.target);
+        // After Ctrl-O, `$` goes past the last character so that typing appends to the line
+        if (motion.key === '$' && this.oneCommandDepth !== null) {
+          this.state.cursor.col = this.getCurrentLine().length;
         }
-        break;
+      } else {
+        this.abortReplay = true;
+      }
+      return;
+    }
 
-      case 'b':
-        for (let i = 0; i < count; i++) {
-          this.moveWordBackward();
-        }
+    if (action) {
+      this.executeAction(action, count);
+    }
+  }
+
+  private executeAction(action: KeyCommand, count: number | null): void {
+    const n = count ?? 1;
+
+    // x, D, C, ... are shorthands for an operator + motion
+    const alias = ACTION_ALIASES[action.key];
+    if (alias) {
+      const parsed = parseNormalCommand(alias);
+      if (parsed.status === 'complete') {
+        this.executeNormalCommand({ ...parsed.command, count });
+      }
+      return;
+    }
+
+    switch (action.key) {
+      case 'r':
+        this.replaceChars(action.char!, n);
         break;
 
-      case 'e':
-        for (let i = 0; i < count; i++) {
-          this.moveToEndOfWord();
-        }
+      // Macros
+      case 'q':
+        this.startRecording(action.char!);
         break;
 
-      case '0':
-        this.state.cursor.col = 0;
+      case '@':
+        this.playMacro(action.char!, n);
         break;
 
-      case '$':
-        this.state.cursor.col = Math.max(0, this.getCurrentLine().length - 1);
+      // Marks and jumps
+      case 'm':
+        if (isSettableMark(action.char!)) {
+          this.state.marks[markKey(action.char!)] = { ...this.state.cursor };
+        } else {
+          this.abortReplay = true;
+        }
         break;
 
-      case '^':
-        const firstNonSpace = this.getCurrentLine().search(/\S/);
-        this.state.cursor.col = firstNonSpace === -1 ? 0 : firstNonSpace;
+      case '<C-d>':
+      case '<C-u>':
+      case '<C-f>':
+      case '<C-b>':
+      case '<C-e>':
+      case '<C-y>':
+      case 'zt':
+      case 'zz':
+      case 'zb':
+        if (!this.scroll(action.key, count)) this.abortReplay = true;
         break;
 
-      case 'G':
-        this.state.cursor.line = this.state.lines.length - 1;
-        this.state.cursor = this.clampCursor(this.state.cursor);
+      case '<C-o>':
+      case '<C-i>':
+      case 'Tab': {
+        const jump = action.key === '<C-o>' ? this.jumpList.back(this.state.cursor, n) : this.jumpList.forward(n);
+        if (jump) {
+          this.state.cursor = this.clampCursor(jump);
+        } else {
+          this.abortReplay = true;
+        }
         break;
+      }
 
       // Insert mode
       case 'i':
@@ -302,6 +866,23 @@ export class VimEngine {
         this.state.cursor.col = this.getCurrentLine().length;
         break;
 
+      case 'R':
+        this.state.mode = 'replace';
+        break;
+
+      // Toggle the case of [count] characters and move past them
+      case '~': {
+        const { line, col } = this.state.cursor;
+        const end = Math.min(this.getCurrentLine().length, col + n);
+        if (end === col) {
+          this.abortReplay = true;
+          break;
+        }
+        this.changeCase({ start: { line, col }, end: { line, col: end }, linewise: false }, 'g~');
+        this.state.cursor = this.clampCursor({ line, col: end });
+        break;
+      }
+
       case 'I':
         this.state.mode = 'insert';
         const firstChar = this.getCurrentLine().search(/\S/);
@@ -309,83 +890,56 @@ export class VimEngine {
         break;
 
       case 'o':
-        this.state.lines.splice(this.state.cursor.line + 1, 0, '');
-        this.state.cursor.line++;
-        this.state.cursor.col = 0;
-        this.state.mode = 'insert';
-        break;
-
-      case 'O':
+      case 'O': {
+        const indent = this.autoIndentFor(this.state.cursor.line);
+        if (action.key === 'o') this.state.cursor.line++;
         this.state.lines.splice(this.state.cursor.line, 0, '');
         this.state.cursor.col = 0;
         this.state.mode = 'insert';
+        this.applyAutoIndent(indent);
         break;
+      }
 
       // Visual mode
       case 'v':
-        this.state.mode = 'visual';
+      case 'V':
+      case '<C-v>':
+        this.state.mode = VISUAL_MODE_KEYS[action.key];
         this.state.selection = {
           start: { ...this.state.cursor },
           end: { ...this.state.cursor },
         };
         break;
 
-      case 'V':
-        this.state.mode = 'visual';
-        this.state.selection = {
-          start: { line: this.state.cursor.line, col: 0 },
-          end: { line: this.state.cursor.line, col: this.getCurrentLine().length },
-        };
+      case 'gv':
+        this.reselectVisual();
         break;
 
       // Editing
-      case 'x':
-        for (let i = 0; i < count; i++) {
-          this.deleteChar();
-        }
-        break;
-
-      case 'X':
-        for (let i = 0; i < count; i++) {
-          this.deleteCharBefore();
-        }
-        break;
-
-      case 's':
-        this.deleteChar();
-        this.state.mode = 'insert';
-        break;
-
-      case 'S':
-        this.setCurrentLine('');
-        this.state.cursor.col = 0;
-        this.state.mode = 'insert';
-        break;
-
-      case 'D':
-        this.deleteToEnd();
+      case 'p':
+        this.paste('after', n);
         break;
 
-      case 'C':
-        this.deleteToEnd();
-        this.state.mode = 'insert';
+      case 'P':
+        this.paste('before', n);
         break;
 
-      case 'p':
-        this.paste('after');
+      case 'u':
+        this.undo(n);
         break;
 
-      case 'P':
-        this.paste('before');
+      case '<C-r>':
+        this.redo(n);
         break;
 
-      case 'u':
-        // Undo not implemented - would need history stack
-        this.state.message = 'Undo not available in this trainer';
+      case 'U':
+        this.undoLine();
         break;
 
       case 'J':
-        this.joinLines();
+        for (let i = 0; i < Math.max(1, n - 1); i++) {
+          this.joinLines();
+        }
         break;
 
       // Command mode
@@ -396,45 +950,564 @@ export class VimEngine {
 
       // Search
       case '/':
+      case '?':
         this.state.mode = 'command';
-        this.state.commandBuffer = '/';
+        this.state.commandBuffer = action.key;
+        this.searchOrigin = { ...this.state.cursor };
         break;
 
-      case 'n':
-        this.searchNext();
+      case 'Escape':
+        this.state.selection = null;
+        this.state.commandBuffer = '';
         break;
+    }
+  }
+
+  /**
+   * Where a motion would take the cursor, without moving it. Returns null when
+   * the motion fails (e.g. `fx` with no "x" on the line), which aborts an operator.
+   */
+  private resolveMotion(motion: KeyCommand, count: number | null): MotionTarget | null {
+    const n = count ?? 1;
+    const cursor = this.state.cursor;
+    const { line, col } = cursor;
+    const lines = this.state.lines;
+    const text = this.getCurrentLine();
+    const lastLine = lines.length - 1;
+    const exclusive = (target: CursorPosition): MotionTarget => ({ target, linewise: false, inclusive: false });
+    const inclusive = (target: CursorPosition): MotionTarget => ({ target, linewise: false, inclusive: true });
+    const linewise = (target: CursorPosition): MotionTarget => ({ target, linewise: true, inclusive: false });
+
+    switch (motion.key) {
+      case 'h':
+      case 'ArrowLeft':
+      case 'Backspace':
+        return col === 0 ? null : exclusive({ line, col: Math.max(0, col - n) });
+
+      case 'l':
+      case 'ArrowRight':
+      case ' ':
+        return text.length === 0 ? null : exclusive({ line, col: Math.min(text.length, col + n) });
+
+      case 'j':
+      case 'ArrowDown':
+        return line >= lastLine ? null : linewise({ line: Math.min(lastLine, line + n), col });
+
+      case 'k':
+      case 'ArrowUp':
+        return line === 0 ? null : linewise({ line: Math.max(0, line - n), col });
+
+      case 'w':
+      case 'W': {
+        const target = wordForward(lines, cursor, n, motion.key === 'W');
+        return target && exclusive(target);
+      }
+
+      case 'b':
+      case 'B': {
+        const target = wordBackward(lines, cursor, n, motion.key === 'B');
+        return target && exclusive(target);
+      }
+
+      case 'e':
+      case 'E': {
+        const target = wordEnd(lines, cursor, n, motion.key === 'E');
+        return target && inclusive(target);
+      }
+
+      case 'ge':
+      case 'gE': {
+        const target = wordEndBackward(lines, cursor, n, motion.key === 'gE');
+        return target && inclusive(target);
+      }
+
+      case ')':
+      case '(': {
+        const target = motion.key === ')' ? sentenceForward(lines, cursor, n) : sentenceBackward(lines, cursor, n);
+        return target && exclusive(target);
+      }
+
+      case '}':
+      case '{': {
+        const target = motion.key === '}' ? paragraphForward(lines, cursor, n) : paragraphBackward(lines, cursor, n);
+        return target && exclusive(target);
+      }
 
+      // With a count `%` goes to that percentage of the buffer instead of the matching bracket
+      case '%': {
+        if (count !== null) {
+          if (count > 100) return null;
+          const target = percentLine(lines, count);
+          return linewise({ line: target, col: this.firstNonBlank(target) });
+        }
+        const target = matchBracket(lines, cursor);
+        return target && inclusive(target);
+      }
+
+      case '0':
+        return exclusive({ line, col: 0 });
+
+      case '^':
+        return exclusive({ line, col: this.firstNonBlank(line) });
+
+      case '$': {
+        const target = Math.min(lastLine, line + n - 1);
+        return inclusive({ line: target, col: Math.max(0, this.state.lines[target].length - 1) });
+      }
+
+      case 'H':
+      case 'M':
+      case 'L': {
+        const target = screenLine(this.state.viewport, lines.length, motion.key, n);
+        return linewise({ line: target, col: this.firstNonBlank(target) });
+      }
+
+      case 'G': {
+        const target = count === null ? lastLine : Math.min(lastLine, count - 1);
+        return linewise({ line: target, col: this.firstNonBlank(target) });
+      }
+
+      case 'gg': {
+        const target = count === null ? 0 : Math.min(lastLine, count - 1);
+        return linewise({ line: target, col: this.firstNonBlank(target) });
+      }
+
+      case 'f':
+      case 'F':
+      case 't':
+      case 'T':
+        this.lastCharSearch = { key: motion.key, char: motion.char };
+        return this.findCharTarget(motion.key, motion.char!, n, false);
+
+      // Repeat the last f, F, t or T, in the same or the opposite direction
+      case ';':
+      case ',': {
+        const last = this.lastCharSearch;
+        if (!last) return null;
+        const key = motion.key === ';' ? last.key : REVERSED_CHAR_SEARCH[last.key];
+        return this.findCharTarget(key, last.char!, n, true);
+      }
+
+      case 'n':
       case 'N':
-        this.searchPrev();
-        break;
+        return this.resolveSearch(motion.key === 'N', n);
 
       case '*':
-        this.searchWordUnderCursor();
+      case '#': {
+        const start = this.searchWordUnderCursor(motion.key === '*');
+        return start && this.resolveSearch(false, n, start);
+      }
+
+      case '\'':
+      case '`': {
+        const mark = this.markPosition(motion.char!);
+        if (!mark) return null;
+        return motion.key === '`'
+          ? exclusive(mark)
+          : linewise({ line: mark.line, col: this.firstNonBlank(mark.line) });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * The `count`-th `char` on the cursor line for `f`, `F`, `t` and `T`. `t`
+   * and `T` stop next to it; repeated with `;` or `,` they look past a match
+   * right beside the cursor, which would otherwise not move them.
+   */
+  private findCharTarget(key: string, char: string, count: number, isRepeat: boolean): MotionTarget | null {
+    const { line, col } = this.state.cursor;
+    const text = this.getCurrentLine();
+    const forward = key === 'f' || key === 't';
+    const till = key === 't' || key === 'T';
+
+    let idx = till && isRepeat ? col + (forward ? 1 : -1) : col;
+    for (let i = 0; i < count; i++) {
+      idx = forward ? text.indexOf(char, idx + 1) : (idx > 0 ? text.lastIndexOf(char, idx - 1) : -1);
+      if (idx === -1) return null;
+    }
+
+    const target = { line, col: till ? idx + (forward ? -1 : 1) : idx };
+    // Forward searches include the target character in an operator, backward ones stop short of the cursor
+    return { target, linewise: false, inclusive: forward };
+  }
+
+  /**
+   * Scroll commands. Ctrl-D / Ctrl-U move the view and the cursor by half a
+   * window, Ctrl-F / Ctrl-B by a window less two lines, Ctrl-E / Ctrl-Y by one
+   * line, keeping the cursor in view; `zt`, `zz` and `zb` move only the view.
+   * Returns false when there is nowhere to scroll.
+   */
+  private scroll(key: string, count: number | null): boolean {
+    const viewport = this.state.viewport;
+    const lineCount = this.state.lines.length;
+    const lastLine = lineCount - 1;
+    const { line } = this.state.cursor;
+    const n = count ?? 1;
+    const setView = (top: number): Viewport => (this.state.viewport = { ...viewport, top: clampTop(top, lineCount) });
+    const moveTo = (target: number) => {
+      this.state.cursor = { line: target, col: this.firstNonBlank(target) };
+    };
+
+    switch (key) {
+      case '<C-d>':
+      case '<C-u>': {
+        if (count !== null) this.scrollAmount = count;
+        const amount = this.scrollAmount || Math.max(1, Math.floor(viewport.height / 2));
+        if (line === (key === '<C-d>' ? lastLine : 0)) return false;
+        const view = key === '<C-d>'
+          ? setView(Math.min(viewport.top + amount, Math.max(viewport.top, lineCount - viewport.height)))
+          : setView(viewport.top - amount);
+        const { first, last } = cursorRange(view, lineCount);
+        const target = key === '<C-d>' ? line + amount : line - amount;
+        moveTo(Math.max(first, Math.min(target, last)));
+        return true;
+      }
+
+      case '<C-f>':
+      case '<C-b>': {
+        const page = Math.max(1, viewport.height - 2) * n;
+        const onTop = key === '<C-f>' ? viewport.top >= lastLine : viewport.top === 0;
+        if (onTop) return false;
+        const view = setView(key === '<C-f>' ? viewport.top + page : viewport.top - page);
+        const { first, last } = cursorRange(view, lineCount);
+        moveTo(key === '<C-f>' ? first : last);
+        return true;
+      }
+
+      case '<C-e>':
+      case '<C-y>': {
+        const top = clampTop(viewport.top + (key === '<C-e>' ? n : -n), lineCount);
+        if (top === viewport.top) return false;
+        const { first, last } = cursorRange(setView(top), lineCount);
+        const target = Math.max(first, Math.min(line, last));
+        if (target !== line) {
+          this.state.cursor = this.clampCursor({ line: target, col: this.state.cursor.col });
+        }
+        return true;
+      }
+
+      // A count names the line to put there instead of the cursor line
+      default: {
+        const target = count === null ? line : Math.min(count, lineCount) - 1;
+        const position = key === 'zt' ? 'top' : key === 'zb' ? 'bottom' : 'middle';
+        if (target !== line) moveTo(target);
+        setView(topFor(viewport, target, position));
+        return true;
+      }
+    }
+  }
+
+  // Where a mark is, or null with an error message when it is not set
+  private markPosition(name: string): CursorPosition | null {
+    const mark = this.state.marks[markKey(name)];
+    if (!mark) {
+      this.state.message = 'E20: Mark not set';
+      return null;
+    }
+    if (mark.line >= this.state.lines.length) {
+      this.state.message = 'E19: Mark has invalid line number';
+      return null;
+    }
+    return this.clampCursor(mark);
+  }
+
+  // Called before a jump: remember where the cursor was for '' and Ctrl-O
+  private recordJump(): void {
+    this.state.marks['\''] = { ...this.state.cursor };
+    this.jumpList.push(this.state.cursor);
+  }
+
+  private firstNonBlank(line: number): number {
+    const idx = (this.state.lines[line] || '').search(/\S/);
+    return idx === -1 ? 0 : idx;
+  }
+
+  /**
+   * Turn the motion or text object of an operator command into the text it
+   * covers, applying Vim's exclusive/inclusive and `cw`/`dw` special cases.
+   */
+  private resolveOperatorRange(command: NormalCommand): TextRange | null {
+    const { operator, textObject } = command;
+    const count = command.count ?? 1;
+    const cursor = { ...this.state.cursor };
+    const lines = this.state.lines;
+
+    if (textObject) {
+      return this.resolveTextObject(textObject, count);
+    }
+
+    if (!command.motion) {
+      const endLine = Math.min(cursor.line + count - 1, lines.length - 1);
+      return {
+        start: { line: cursor.line, col: 0 },
+        end: { line: endLine, col: lines[endLine].length },
+        linewise: true,
+      };
+    }
+
+    let motion = command.motion;
+
+    // `cw` on a word behaves like `ce`: the blanks after the word are kept
+    if (operator === 'c' && (motion.key === 'w' || motion.key === 'W')) {
+      const text = this.getCurrentLine();
+      if (/\S/.test(text[cursor.col] || '')) {
+        const end = this.endOfWordFrom(cursor, count, motion.key === 'W');
+        return { start: cursor, end: { line: end.line, col: end.col + 1 }, linewise: false };
+      }
+      if (count === 1 && cursor.col < text.length) {
+        return { start: cursor, end: { line: cursor.line, col: cursor.col + 1 }, linewise: false };
+      }
+    }
+
+    const result = this.resolveMotion(motion, command.count);
+    if (!result) return null;
+
+    let start = cursor;
+    let end = { ...result.target };
+    if (end.line < start.line || (end.line === start.line && end.col < start.col)) {
+      [start, end] = [end, start];
+    }
+
+    if (result.linewise) {
+      return {
+        start: { line: start.line, col: 0 },
+        end: { line: end.line, col: lines[end.line].length },
+        linewise: true,
+      };
+    }
+
+    if (result.inclusive) {
+      end.col = Math.min(end.col + 1, lines[end.line].length);
+      return { start, end, linewise: false };
+    }
+
+    // `dw` on the last word of a line stops at the end of that line
+    if ((motion.key === 'w' || motion.key === 'W') && end.line > start.line && !lines[end.line].substring(0, end.col).trim()) {
+      end = { line: end.line - 1, col: lines[end.line - 1].length };
+    }
+
+    // An exclusive motion ending in column 0 stops at the end of the previous line,
+    // and covers whole lines when it also started before the first non-blank
+    if (end.col === 0 && end.line > start.line) {
+      end = { line: end.line - 1, col: lines[end.line - 1].length };
+      if (start.col <= this.firstNonBlank(start.line)) {
+        return { start: { line: start.line, col: 0 }, end, linewise: true };
+      }
+    }
+
+    return { start, end, linewise: false };
+  }
+
+  // End of the word under the cursor, then of the following words for a count
+  private endOfWordFrom(cursor: CursorPosition, count: number, bigWord: boolean): CursorPosition {
+    const text = this.state.lines[cursor.line];
+    const charClass = (ch: string) => (/\s/.test(ch) ? 0 : bigWord || /\w/.test(ch) ? 2 : 1);
+
+    let col = cursor.col;
+    while (col + 1 < text.length && charClass(text[col + 1]) === charClass(text[col])) col++;
+
+    const end = { line: cursor.line, col };
+    return (count > 1 && wordEnd(this.state.lines, end, count - 1, bigWord)) || end;
+  }
+
+  private resolveTextObject(textObject: KeyCommand, count: number = 1, from: CursorPosition = this.state.cursor): TextRange | null {
+    return selectTextObject(this.state.lines, from, textObject.char!, textObject.key === 'a', count);
+  }
+
+  private applyOperator(operator: Operator, range: TextRange, smallDelete: boolean): void {
+    switch (operator) {
+      case 'd':
+        this.deleteRange(range, smallDelete);
         break;
 
-      case 'Escape':
-        this.state.selection = null;
-        this.state.commandBuffer = '';
+      case 'y':
+        this.yankRange(range);
         break;
 
-      default:
-        return false;
+      case 'c':
+        this.changeRange(range, smallDelete);
+        break;
+
+      case '>':
+      case '<':
+        this.shiftLines(range.start.line, range.end.line, operator === '>' ? 1 : -1);
+        break;
+
+      case '=':
+        this.reindentLines(range.start.line, range.end.line);
+        break;
+
+      case 'g~':
+      case 'gu':
+      case 'gU':
+        this.changeCase(range, operator);
+        break;
     }
+  }
 
-    this.notifyChange();
-    return true;
+  private getRangeText(range: TextRange): string {
+    const { start, end } = range;
+    const lines = this.state.lines;
+
+    if (range.linewise) {
+      return lines.slice(start.line, end.line + 1).join('\n') + '\n';
+    }
+    if (start.line === end.line) {
+      return lines[start.line].substring(start.col, end.col);
+    }
+    return [
+      lines[start.line].substring(start.col),
+      ...lines.slice(start.line + 1, end.line),
+      lines[end.line].substring(0, end.col),
+    ].join('\n');
+  }
+
+  private removeRange(range: TextRange): void {
+    const { start, end } = range;
+    const lines = this.state.lines;
+
+    if (range.linewise) {
+      lines.splice(start.line, end.line - start.line + 1);
+      if (lines.length === 0) {
+        lines.push('');
+      }
+      return;
+    }
+
+    lines[start.line] = lines[start.line].substring(0, start.col) + lines[end.line].substring(end.col);
+    lines.splice(start.line + 1, end.line - start.line);
+  }
+
+  private deleteRange(range: TextRange, smallDelete: boolean): void {
+    const text = this.getRangeText(range);
+    if (!text) return;
+
+    storeRegister(this.state.registers, this.register, text, 'delete', smallDelete);
+    this.removeRange(range);
+
+    if (range.linewise) {
+      const line = Math.min(range.start.line, this.state.lines.length - 1);
+      this.state.cursor = { line, col: this.firstNonBlank(line) };
+    } else {
+      this.state.cursor = this.clampCursor(range.start);
+    }
+  }
+
+  private yankRange(range: TextRange): void {
+    const text = this.getRangeText(range);
+    if (!text) return;
+
+    storeRegister(this.state.registers, this.register, text, 'yank');
+    this.state.marks['['] = range.linewise ? { line: range.start.line, col: 0 } : { ...range.start };
+    this.state.marks[']'] = range.linewise
+      ? { line: range.end.line, col: Math.max(0, this.state.lines[range.end.line].length - 1) }
+      : this.clampCursor({ line: range.end.line, col: range.end.col - 1 });
+
+    if (range.linewise) {
+      const count = range.end.line - range.start.line + 1;
+      this.state.message = `${count} line(s) yanked`;
+      this.state.cursor = this.clampCursor({ line: range.start.line, col: this.state.cursor.col });
+    } else {
+      this.state.cursor = this.clampCursor(range.start);
+    }
+  }
+
+  private changeRange(range: TextRange, smallDelete: boolean): void {
+    storeRegister(this.state.registers, this.register, this.getRangeText(range), 'delete', smallDelete);
+    this.state.mode = 'insert';
+
+    if (range.linewise) {
+      // With autoindent, `cc` and `S` keep the indent of the first line
+      const indent = this.autoIndentFor(range.start.line);
+      this.state.lines.splice(range.start.line, range.end.line - range.start.line + 1, '');
+      this.state.cursor = { line: range.start.line, col: 0 };
+      this.applyAutoIndent(indent);
+    } else {
+      this.removeRange(range);
+      this.state.cursor = this.clampCursor(range.start);
+    }
+  }
+
+  private shiftLines(first: number, last: number, direction: 1 | -1): void {
+    for (let i = first; i <= last; i++) {
+      this.state.lines[i] = shiftLine(this.state.lines[i], direction, this.options);
+    }
+    this.state.cursor = { line: first, col: this.firstNonBlank(first) };
+  }
+
+  private reindentLines(first: number, last: number): void {
+    const lines = reindentLines(this.state.lines, first, last, this.options);
+    this.state.lines.splice(first, lines.length, ...lines);
+    this.state.cursor = { line: first, col: this.firstNonBlank(first) };
+  }
+
+  private changeCase(range: TextRange, operator: 'g~' | 'gu' | 'gU'): void {
+    const transform = (text: string): string => {
+      if (operator === 'gu') return text.toLowerCase();
+      if (operator === 'gU') return text.toUpperCase();
+      return text
+        .split('')
+        .map((ch) => (ch === ch.toUpperCase() ? ch.toLowerCase() : ch.toUpperCase()))
+        .join('');
+    };
+
+    const { start, end } = range;
+    for (let i = start.line; i <= end.line; i++) {
+      const text = this.state.lines[i];
+      const from = range.linewise || i > start.line ? 0 : start.col;
+      const to = range.linewise || i < end.line ? text.length : end.col;
+      this.state.lines[i] = text.substring(0, from) + transform(text.substring(from, to)) + text.substring(to);
+    }
+
+    this.state.cursor = this.clampCursor(range.linewise ? { line: start.line, col: 0 } : start);
+  }
+
+  private replaceChars(char: string, count: number): void {
+    const line = this.getCurrentLine();
+    const col = this.state.cursor.col;
+    if (col + count > line.length) return;
+
+    this.setCurrentLine(line.substring(0, col) + char.repeat(count) + line.substring(col + count));
+    this.state.cursor.col = col + count - 1;
   }
 
   private handleInsertMode(key: string, ctrl: boolean, e: KeyboardEvent): boolean {
+    if (this.insertRegisterPending) {
+      this.insertRegisterPending = false;
+      this.state.commandBuffer = '';
+      if (key !== 'Escape') this.insertRegister(key);
+      this.notifyChange();
+      return true;
+    }
+
+    // Backspace in replace mode cannot restore text from before the cursor moved or a line was edited
+    if (ctrl || key.startsWith('Arrow')) {
+      this.replacedChars = [];
+    }
+    const autoIndentLine = this.autoIndentLine;
+    this.autoIndentLine = null;
+    if (ctrl) {
+      return this.handleInsertControlKey(key, e);
+    }
+
     switch (key) {
       case 'Escape':
+        this.finishInsertSession();
+        this.dropUnusedIndent(autoIndentLine);
         this.state.mode = 'normal';
         this.state.cursor.col = Math.max(0, this.state.cursor.col - 1);
+        this.finishBlockInsert();
         break;
 
       case 'Backspace':
         e.preventDefault();
-        this.backspace();
+        if (this.state.mode === 'replace') {
+          this.replaceBackspace();
+        } else {
+          this.backspace();
+        }
         break;
 
       case 'Delete':
@@ -444,12 +1517,16 @@ export class VimEngine {
       case 'Enter':
         e.preventDefault();
         this.insertNewline();
+        this.dropUnusedIndent(autoIndentLine);
+        if (this.state.mode === 'replace') this.replacedChars.push('\n');
         break;
 
-      case 'Tab':
+      case 'Tab': {
         e.preventDefault();
-        this.insertText('  ');
+        const column = displayWidth(this.getCurrentLine().substring(0, this.state.cursor.col), this.options.tabstop);
+        this.typeText(tabText(column, this.options));
         break;
+      }
 
       case 'ArrowLeft':
         this.state.cursor.col = Math.max(0, this.state.cursor.col - 1);
@@ -472,7 +1549,7 @@ export class VimEngine {
       default:
         if (key.length === 1 && !ctrl) {
           e.preventDefault();
-          this.insertText(key);
+          this.typeText(key);
         } else {
           return false;
         }
@@ -482,236 +1559,1172 @@ export class VimEngine {
     return true;
   }
 
-  private handleVisualMode(key: string, _ctrl: boolean, _shift: boolean, _e: KeyboardEvent): boolean {
+  // Typed text is inserted, or in replace mode written over the characters under the cursor
+  private typeText(text: string): void {
+    if (this.state.mode !== 'replace') {
+      this.insertText(text);
+      return;
+    }
+
+    const line = this.getCurrentLine();
+    const col = this.state.cursor.col;
+    const overwritten = line.substring(col, col + text.length);
+    for (let i = 0; i < text.length; i++) {
+      this.replacedChars.push(i < overwritten.length ? overwritten[i] : null);
+    }
+    this.setCurrentLine(line.substring(0, col) + text + line.substring(col + text.length));
+    this.state.cursor.col = col + text.length;
+  }
+
+  // Backspace in replace mode puts back what was typed over; before that it only moves left
+  private replaceBackspace(): void {
+    const original = this.replacedChars.pop();
+    if (original === undefined) {
+      this.state.cursor.col = Math.max(0, this.state.cursor.col - 1);
+      return;
+    }
+    if (original === '\n') {
+      this.backspace();
+      return;
+    }
+
+    const line = this.getCurrentLine();
+    const col = this.state.cursor.col - 1;
+    this.setCurrentLine(line.substring(0, col) + (original ?? '') + line.substring(col + 1));
+    this.state.cursor.col = col;
+  }
+
+  private handleInsertControlKey(key: string, e: KeyboardEvent): boolean {
     switch (key) {
+      case 'w':
+        this.deleteWordBefore();
+        break;
+
+      case 'u':
+        this.deleteLineBefore();
+        break;
+
+      case 'r':
+        this.insertRegisterPending = true;
+        this.state.commandBuffer = '^R';
+        break;
+
+      case 'o':
+        this.startOneCommand();
+        break;
+
+      case 't':
+        this.changeLineIndent(1);
+        break;
+
+      case 'd':
+        this.changeLineIndent(-1);
+        break;
+
+      default:
+        return false;
+    }
+
+    e.preventDefault();
+    this.notifyChange();
+    return true;
+  }
+
+  // Ctrl-O ends the insert like Escape does, but leaves the cursor where it is
+  private startOneCommand(): void {
+    this.oneCommandMode = this.state.mode === 'replace' ? 'replace' : 'insert';
+    this.finishInsertSession();
+    this.blockInsert = null;
+    this.state.mode = 'normal';
+    this.oneCommandDepth = this.replayDepth;
+    this.state.message = `-- (${this.oneCommandMode}) --`;
+  }
+
+  // Once the command is done and nothing is pending, go back to insert or replace mode
+  private finishOneCommand(): void {
+    if (isInsertMode(this.state.mode)) {
+      this.oneCommandDepth = null;
+      return;
+    }
+    if (this.state.mode !== 'normal' || this.pendingKeys.length > 0) return;
+
+    const mode = this.oneCommandMode;
+    this.oneCommandDepth = null;
+    if (this.state.message === `-- (${mode}) --`) this.state.message = '';
+    this.state.mode = mode;
+    this.insertStart = { ...this.state.cursor };
+    this.replacedChars = [];
+    const key = mode === 'replace' ? 'R' : 'i';
+    this.recordChange({ count: null, register: null, operator: null, motion: null, textObject: null, action: { key } });
+    this.notifyChange();
+  }
+
+  private handleVisualMode(key: string, ctrl: boolean, _shift: boolean, _e: KeyboardEvent): boolean {
+    this.pendingKeys.push(keyToken(key, ctrl));
+    const result = parseVisualCommand(this.pendingKeys);
+
+    if (result.status === 'pending') {
+      this.state.commandBuffer = this.pendingKeys.join('');
+      this.notifyChange();
+      return true;
+    }
+
+    const wasPending = this.pendingKeys.length > 1;
+    this.pendingKeys = [];
+    this.state.commandBuffer = '';
+
+    if (result.status === 'invalid') {
+      this.abortReplay = true;
+      this.notifyChange();
+      return wasPending;
+    }
+
+    if (writesRegister(result.command, true) && this.rejectReadOnlyRegister(result.command.register)) {
+      this.notifyChange();
+      return true;
+    }
+
+    const mode = this.state.mode as VisualMode;
+    const selection = this.state.selection;
+    this.register = result.command.register;
+    this.executeVisualCommand(result.command);
+    this.register = null;
+
+    if (!isVisualMode(this.state.mode) && !this.state.selection && selection) {
+      this.rememberVisual(mode, selection);
+    }
+
+    this.notifyChange();
+    return true;
+  }
+
+  private executeVisualCommand(command: NormalCommand): void {
+    const { count, motion, textObject, action } = command;
+    const mode = this.state.mode as VisualMode;
+    const selection = this.state.selection;
+    const n = count ?? 1;
+
+    if (!selection) return;
+    if (motion) {
+      this.moveSelection(motion, count);
+      return;
+    }
+    if (textObject) {
+      this.selectTextObject(textObject);
+      return;
+    }
+    if (!action) return;
+
+    switch (action.key) {
       case 'Escape':
-        this.state.mode = 'normal';
-        this.state.selection = null;
         break;
 
-      case 'h':
-      case 'ArrowLeft':
-        this.state.cursor.col = Math.max(0, this.state.cursor.col - 1);
-        this.updateSelection();
+      // Switch to another kind of visual mode, or leave it with the same key
+      case 'v':
+      case 'V':
+      case '<C-v>':
+        if (VISUAL_MODE_KEYS[action.key] !== mode) {
+          this.state.mode = VISUAL_MODE_KEYS[action.key];
+          return;
+        }
         break;
 
-      case 'j':
-      case 'ArrowDown':
-        this.state.cursor.line = Math.min(this.state.lines.length - 1, this.state.cursor.line + 1);
-        this.state.cursor = this.clampCursor(this.state.cursor);
+      case '<C-d>':
+      case '<C-u>':
+      case '<C-f>':
+      case '<C-b>':
+      case '<C-e>':
+      case '<C-y>':
+      case 'zt':
+      case 'zz':
+      case 'zb':
+        if (!this.scroll(action.key, count)) this.abortReplay = true;
+        selection.end = { ...this.state.cursor };
         this.updateSelection();
+        return;
+
+      // Go to the other end of the selection; `O` goes to the other corner of a block on the same line
+      case 'o':
+      case 'O': {
+        const anchor = selection.start;
+        if (action.key === 'O' && mode === 'visual-block') {
+          selection.start = { line: anchor.line, col: selection.end.col };
+          selection.end = { line: selection.end.line, col: anchor.col };
+        } else {
+          selection.start = selection.end;
+          selection.end = anchor;
+        }
+        this.state.cursor = { ...selection.end };
+        return;
+      }
+
+      // The command line starts with the selected lines as its range
+      case ':':
+        this.state.mode = 'command';
+        this.state.commandBuffer = ':\'<,\'>';
         break;
 
-      case 'k':
-      case 'ArrowUp':
-        this.state.cursor.line = Math.max(0, this.state.cursor.line - 1);
-        this.state.cursor = this.clampCursor(this.state.cursor);
-        this.updateSelection();
+      // A search moves the cursor end of the selection
+      case '/':
+      case '?':
+        this.state.mode = 'command';
+        this.state.commandBuffer = action.key;
+        this.searchOrigin = { ...this.state.cursor };
+        this.visualSearch = mode;
+        return;
+
+      case 'd':
+      case 'x':
+      case 'X':
+      case 'D':
+        this.wholeLinesFor(action.key, mode, selection);
+        this.recordVisualChange('d', () => this.deleteSelection());
         break;
 
-      case 'l':
-      case 'ArrowRight':
-        const maxCol = this.getCurrentLine().length;
-        this.state.cursor.col = Math.min(maxCol, this.state.cursor.col + 1);
-        this.updateSelection();
+      case 'y':
+      case 'Y':
+        this.wholeLinesFor(action.key, mode, selection);
+        this.yankSelection();
         break;
 
-      case 'w':
-        this.moveWordForward();
-        this.updateSelection();
+      case 'c':
+      case 's':
+      case 'C':
+      case 'S':
+      case 'R':
+        this.wholeLinesFor(action.key, mode, selection);
+        this.recordVisualChange('c', () => {
+          if (this.state.mode === 'visual-block') {
+            const { top, bottom, left } = blockBounds(selection);
+            this.recordBlockChange({ key: 'c' }, selection);
+            this.deleteSelection();
+            this.startBlockInsert(top, bottom, left, false);
+          } else {
+            this.changeSelection();
+          }
+        });
+        break;
+
+      case '>':
+      case '<': {
+        const { start, end } = orderSelection(selection);
+        this.recordVisualChange(action.key, () => {
+          for (let i = 0; i < n; i++) {
+            this.shiftLines(start.line, end.line, action.key === '>' ? 1 : -1);
+          }
+        });
+        break;
+      }
+
+      case '=': {
+        const { start, end } = orderSelection(selection);
+        this.recordVisualChange('=', () => this.reindentLines(start.line, end.line));
+        break;
+      }
+
+      case '~':
+      case 'u':
+      case 'U':
+      case 'g~':
+      case 'gu':
+      case 'gU': {
+        const operator = VISUAL_CASE_OPERATORS[action.key] ?? (action.key as 'g~' | 'gu' | 'gU');
+        this.recordVisualChange(operator, () => {
+          this.forEachSelectedLine(selection, (line, from, to) => {
+            this.changeCase({ start: { line, col: from }, end: { line, col: to }, linewise: false }, operator);
+          });
+          this.state.cursor = this.selectionStart(selection);
+        });
+        break;
+      }
+
+      case 'J': {
+        const { start, end } = orderSelection(selection);
+        const joins = Math.max(1, end.line - start.line);
+        this.recordVisualAction(action, joins + 1, () => {
+          this.state.cursor = { line: start.line, col: this.state.cursor.col };
+          for (let i = 0; i < joins; i++) {
+            this.joinLines();
+          }
+          this.state.cursor = this.clampCursor(this.state.cursor);
+        });
         break;
+      }
+
+      // Replace every selected character
+      case 'r': {
+        const { start, end } = orderSelection(selection);
+        const width = mode === 'visual' && start.line === end.line ? end.col - start.col + 1 : null;
+        this.recordVisualAction(action, width, () => {
+          this.forEachSelectedLine(selection, (line, from, to) => {
+            const text = this.state.lines[line];
+            this.state.lines[line] = text.substring(0, from) + action.char!.repeat(to - from) + text.substring(to);
+          });
+          this.state.cursor = this.selectionStart(selection);
+        });
+        break;
+      }
+
+      case 'p':
+      case 'P':
+        this.putOverSelection(selection, action.key === 'p', n);
+        break;
+
+      // Insert in front of or after the block on every line
+      case 'I':
+      case 'A': {
+        if (mode !== 'visual-block') {
+          this.abortReplay = true;
+          return;
+        }
+        const { top, bottom, left, right } = blockBounds(selection);
+        this.recordBlockChange(action, selection);
+        if (action.key === 'I') {
+          this.startBlockInsert(top, bottom, left, false);
+        } else if (right === Infinity) {
+          this.startBlockInsert(top, bottom, this.state.lines[top].length, true);
+        } else {
+          this.state.lines[top] = this.state.lines[top].padEnd(right + 1);
+          this.startBlockInsert(top, bottom, right + 1, false, true);
+        }
+        break;
+      }
+    }
+
+    // Everything else ends visual mode
+    this.state.selection = null;
+    if (isVisualMode(this.state.mode)) {
+      this.state.mode = 'normal';
+    }
+  }
+
+  /**
+   * Move the cursor end of the selection with any normal-mode motion. `$`
+   * takes the line break in characterwise mode and reaches every line end in
+   * a block, until a motion to a column undoes it.
+   */
+  private moveSelection(motion: KeyCommand, count: number | null): void {
+    const selection = this.state.selection!;
+    const result = this.resolveMotion(motion, count);
+    if (!result) {
+      this.abortReplay = true;
+      return;
+    }
+
+    if (JUMP_MOTIONS.includes(motion.key)) this.recordJump();
+    this.state.cursor = this.clampCursor(result.target);
+
+    if (motion.key === '$') {
+      if (this.state.mode === 'visual-block') {
+        selection.toLineEnd = true;
+      } else {
+        this.state.cursor.col = this.getCurrentLine().length;
+      }
+    } else if (!['j', 'k', 'ArrowUp', 'ArrowDown'].includes(motion.key)) {
+      selection.toLineEnd = false;
+    }
+
+    this.updateSelection();
+  }
+
+  // `X`, `D`, `Y`, `C`, `S` and `R` act on whole lines; `D` and `C` on a block go to the end of each line
+  private wholeLinesFor(key: string, mode: VisualMode, selection: Selection): void {
+    if (mode === 'visual-block' && (key === 'D' || key === 'C')) {
+      selection.toLineEnd = true;
+    } else if ('XDYCSR'.includes(key)) {
+      this.state.mode = 'visual-line';
+    }
+  }
+
+  // Run a visual change and let `.` repeat it on the same amount of text
+  private recordVisualChange(operator: Operator, change: () => void): void {
+    const repeat = this.visualRepeatCommand(operator);
+    change();
+    if (repeat) this.recordChange(repeat);
+  }
+
+  // The typed text is added to the change as the block insert goes on
+  private recordBlockChange(action: KeyCommand, selection: Selection): void {
+    const { top, bottom, left, right } = blockBounds(selection);
+    const toLineEnd = right === Infinity;
+    this.insertSession = {
+      command: { count: null, register: this.register, operator: null, motion: null, textObject: null, action },
+      insertKeys: [],
+      block: { height: bottom - top + 1, width: toLineEnd ? 1 : right - left + 1, toLineEnd },
+    };
+  }
+
+  // `J` and `r` have no operator form; `.` repeats them as the normal command with a count, null when there is none
+  private recordVisualAction(action: KeyCommand, count: number | null, change: () => void): void {
+    change();
+    if (count !== null) {
+      this.recordChange({ count, register: null, operator: null, motion: null, textObject: null, action });
+    }
+  }
+
+  private forEachSelectedLine(selection: Selection, action: (line: number, from: number, to: number) => void): void {
+    const { start, end } = orderSelection(selection);
+    for (let line = start.line; line <= end.line; line++) {
+      const { from, to } = selectedColumns(this.state.mode, selection, line, this.state.lines[line].length);
+      action(line, from, to);
+    }
+  }
+
+  // Where the cursor goes after a command on the selection
+  private selectionStart(selection: Selection): CursorPosition {
+    if (this.state.mode === 'visual-block') {
+      const { top, left } = blockBounds(selection);
+      return this.clampCursor({ line: top, col: left });
+    }
+    const { start } = orderSelection(selection);
+    return this.clampCursor(this.state.mode === 'visual-line' ? { line: start.line, col: 0 } : start);
+  }
+
+  /**
+   * `p` and `P` on a selection replace it with a register. `p` leaves the
+   * replaced text in the unnamed register, so the next `p` puts it back
+   * somewhere else; `P` leaves the registers alone.
+   */
+  private putOverSelection(selection: Selection, swap: boolean, count: number): void {
+    const text = readRegister(this.state.registers, this.register).repeat(count);
+    if (!text) {
+      this.state.message = `E353: Nothing in register ${this.register ?? '"'}`;
+      this.abortReplay = true;
+      return;
+    }
+
+    const register = this.register;
+    const range = this.state.mode === 'visual-block' ? null : this.selectionRange(selection);
+    const wholeBuffer = range !== null && range.linewise && range.start.line === 0 &&
+      range.end.line === this.state.lines.length - 1;
+
+    this.register = swap ? null : '_';
+    this.deleteSelection();
+    this.register = register;
+
+    const start = range ? range.start : { ...this.state.cursor };
+    const lines = this.state.lines;
+    if (isLinewise(text)) {
+      const newLines = text.slice(0, -1).split('\n');
+      if (range?.linewise) {
+        lines.splice(start.line, wholeBuffer ? 1 : 0, ...newLines);
+        this.state.cursor = { line: start.line, col: this.firstNonBlank(start.line) };
+      } else {
+        // A characterwise selection is split around the new lines
+        const current = lines[start.line];
+        lines.splice(start.line, 1, current.substring(0, start.col), ...newLines, current.substring(start.col));
+        this.state.cursor = { line: start.line + 1, col: this.firstNonBlank(start.line + 1) };
+      }
+    } else if (range?.linewise) {
+      lines.splice(start.line, wholeBuffer ? 1 : 0, ...text.split('\n'));
+      this.state.cursor = { line: start.line, col: 0 };
+    } else {
+      const last = this.insertTextAt(start, text);
+      this.state.cursor = text.includes('\n') ? { ...start } : last;
+    }
+  }
+
+  // Set the '< and '> marks and what `gv` needs to select the same area again
+  private rememberVisual(mode: VisualMode, selection: Selection): void {
+    const { start, end } = selection;
+    if (mode === 'visual-block') {
+      const { top, bottom, left } = blockBounds(selection);
+      this.state.marks['<'] = { line: top, col: left };
+      this.state.marks['>'] = { line: bottom, col: Math.max(start.col, end.col) };
+      this.lastVisual = {
+        mode,
+        cursorAtTop: end.line < start.line,
+        cursorAtLeft: end.col < start.col,
+        toLineEnd: Boolean(selection.toLineEnd),
+      };
+      return;
+    }
+
+    const ordered = orderSelection(selection);
+    const cursorFirst = ordered.start === end;
+    this.state.marks['<'] = { ...ordered.start };
+    this.state.marks['>'] = { ...ordered.end };
+    this.lastVisual = { mode, cursorAtTop: cursorFirst, cursorAtLeft: cursorFirst, toLineEnd: false };
+  }
+
+  // `gv`: select the last visual area again, with the cursor at the same end
+  private reselectVisual(): void {
+    const first = this.state.marks['<'];
+    const last = this.state.marks['>'];
+    if (!this.lastVisual || !first || !last || last.line >= this.state.lines.length) {
+      this.abortReplay = true;
+      return;
+    }
+
+    const { mode, cursorAtTop, cursorAtLeft, toLineEnd } = this.lastVisual;
+    const anchor = { line: cursorAtTop ? last.line : first.line, col: cursorAtLeft ? last.col : first.col };
+    const cursor = { line: cursorAtTop ? first.line : last.line, col: cursorAtLeft ? first.col : last.col };
+
+    this.state.mode = mode;
+    this.state.selection = { start: anchor, end: cursor, toLineEnd };
+    this.state.cursor = { ...cursor };
+  }
+
+  /**
+   * Start insert mode for a block `I`, `A` or `c`. What is typed on the first
+   * line is copied to the others when insert mode ends (see finishBlockInsert).
+   */
+  private startBlockInsert(top: number, bottom: number, col: number, toLineEnd: boolean, pad: boolean = false): void {
+    this.blockInsert = {
+      top,
+      bottom,
+      col,
+      toLineEnd,
+      pad,
+      lineCount: this.state.lines.length,
+      lineLength: this.state.lines[top].length,
+    };
+    this.state.mode = 'insert';
+    this.state.cursor = { line: top, col };
+  }
+
+  private finishBlockInsert(): void {
+    const session = this.blockInsert;
+    this.blockInsert = null;
+    // Like Vim, typing a line break only changes the first line
+    if (!session || this.state.lines.length !== session.lineCount) return;
+
+    const { top, bottom, col, toLineEnd, pad, lineLength } = session;
+    const added = this.state.lines[top].length - lineLength;
+    if (added <= 0) return;
+    const text = this.state.lines[top].substring(col, col + added);
+
+    for (let line = top + 1; line <= bottom; line++) {
+      const current = this.state.lines[line];
+      if (toLineEnd) {
+        this.state.lines[line] = current + text;
+      } else if (current.length >= col || pad) {
+        // `I` and `c` leave lines that end before the block alone; `A` pads them
+        const padded = current.padEnd(col);
+        this.state.lines[line] = padded.substring(0, col) + text + padded.substring(col);
+      }
+    }
+    this.state.cursor = this.clampCursor({ line: top, col });
+  }
+
+  private handleCommandMode(key: string, e: KeyboardEvent): boolean {
+    if (this.confirmSession) {
+      return this.handleConfirmKey(key);
+    }
+
+    switch (key) {
+      case 'Escape':
+        this.leaveCommandLine();
+        break;
+
+      case 'Enter':
+        e.preventDefault();
+        this.executeCommand();
+        break;
+
+      case 'Backspace':
+        e.preventDefault();
+        if (this.state.commandBuffer.length > 1) {
+          this.state.commandBuffer = this.state.commandBuffer.slice(0, -1);
+        } else {
+          this.leaveCommandLine();
+        }
+        break;
+
+      default:
+        if (key.length === 1) {
+          e.preventDefault();
+          this.state.commandBuffer += key;
+        }
+    }
+
+    if (this.searchOrigin && this.options.incsearch) {
+      this.previewSearch();
+    }
+
+    this.notifyChange();
+    return true;
+  }
+
+  /**
+   * Incremental search: while a search is being typed the cursor jumps to the
+   * first match, and goes back to where it was if the search is cancelled.
+   */
+  private previewSearch(): void {
+    const origin = this.searchOrigin!;
+    this.state.cursor = { ...origin };
+
+    if (this.state.mode !== 'command') {
+      this.searchOrigin = null;
+      return;
+    }
+
+    const delimiter = this.state.commandBuffer[0];
+    const { pattern } = parseSearchCommand(this.state.commandBuffer.slice(1), delimiter);
+    const regex = pattern ? compilePattern(pattern, this.options) : null;
+    if (!regex) return;
+
+    const result = findNextMatch(this.state.lines, regex, origin, delimiter === '/', { type: 'none', amount: 0 });
+    if (result) {
+      this.state.cursor = { ...result.target };
+    }
+  }
+
+  private executeCommand(): void {
+    const cmd = this.state.commandBuffer;
+
+    if (cmd.startsWith('/') || cmd.startsWith('?')) {
+      this.state.cursor = this.searchOrigin ?? this.state.cursor;
+      this.searchOrigin = null;
+      const operator = this.searchOperator;
+      if (operator) {
+        // `d/foo<CR>` is `dn` with the search just typed
+        this.leaveCommandLine();
+        if (this.setSearch(cmd[0], cmd.slice(1))) {
+          this.runNormalCommand({ ...operator, motion: { key: 'n' } });
+        }
+        return;
+      }
+      this.runSearch(cmd[0], cmd.slice(1));
+    } else if (cmd.startsWith(':')) {
+      const command = cmd.slice(1);
+      if (command) {
+        this.state.registers[':'] = command;
+      }
+      this.runExCommand(command);
+    }
+
+    // `:s///c` stays in command mode to ask about each match
+    if (!this.confirmSession) {
+      this.leaveCommandLine();
+      this.updateSelection();
+    }
+    this.state.commandBuffer = '';
+  }
+
+  // Back to normal mode, or to the visual mode a search was started from
+  private leaveCommandLine(): void {
+    this.state.mode = this.visualSearch ?? 'normal';
+    this.state.commandBuffer = '';
+    this.visualSearch = null;
+    this.searchOperator = null;
+  }
+
+  private runExCommand(text: string): void {
+    const parsed = parseExCommand(text, {
+      lines: this.state.lines,
+      cursorLine: this.state.cursor.line,
+      mark: (name) => this.markLine(name),
+      search: (pattern, fromLine, forward) => this.searchLine(pattern, fromLine, forward),
+    });
+    if (parsed.status === 'error') {
+      this.state.message = parsed.message;
+      this.abortReplay = true;
+      return;
+    }
+
+    const { range, name, bang, args } = parsed.command;
+    const lines = range ?? { start: this.state.cursor.line, end: this.state.cursor.line };
+    const lastLine = this.state.lines.length - 1;
+    const command = name ? resolveCommandName(name) : '';
+
+    switch (command) {
+      case '':
+        // A bare address goes to that line
+        if (range) {
+          this.recordJump();
+          this.state.cursor = { line: range.end, col: this.firstNonBlank(range.end) };
+        }
+        break;
+
+      case 'write':
+        this.state.message = 'File saved (simulated)';
+        break;
+
+      case 'quit':
+        this.state.message = 'Would quit (simulated)';
+        break;
+
+      case 'wq':
+      case 'xit':
+        this.state.message = 'Saved and quit (simulated)';
+        break;
+
+      case 'substitute':
+      case '&':
+        this.substitute(lines, parseSubstitute(args));
+        break;
+
+      case 'global':
+      case 'vglobal':
+        this.runGlobal(range ?? { start: 0, end: lastLine }, args, command === 'vglobal' || bang);
+        break;
+
+      case 'normal':
+        this.runNormal(range, args);
+        break;
+
+      case 'delete':
+      case 'yank': {
+        // With a count, the lines start at the end of the range: `:d 3`
+        const { register, count } = parseRegisterCount(args);
+        if (this.rejectReadOnlyRegister(register)) break;
+        const target = count ? { start: lines.end, end: Math.min(lastLine, lines.end + count - 1) } : lines;
+        const text = this.state.lines.slice(target.start, target.end + 1).join('\n') + '\n';
+
+        if (command === 'yank') {
+          storeRegister(this.state.registers, register, text, 'yank');
+          this.state.message = `${target.end - target.start + 1} line(s) yanked`;
+        } else {
+          this.register = register;
+          this.deleteRange({ start: { line: target.start, col: 0 }, end: { line: target.end, col: 0 }, linewise: true }, false);
+          this.register = null;
+        }
+        break;
+      }
 
-      case 'b':
-        this.moveWordBackward();
-        this.updateSelection();
+      case 'print':
+        this.printLines(lines);
         break;
 
-      case 'e':
-        this.moveToEndOfWord();
-        this.updateSelection();
+      case 'join': {
+        this.state.cursor = { line: lines.start, col: 0 };
+        const joins = Math.max(1, lines.end - lines.start);
+        for (let i = 0; i < joins; i++) {
+          this.joinLines();
+        }
+        this.state.cursor = { line: lines.start, col: this.firstNonBlank(lines.start) };
         break;
+      }
 
-      case '0':
-        this.state.cursor.col = 0;
-        this.updateSelection();
+      case '>':
+      case '<': {
+        // `:>>>` shifts three times
+        const times = 1 + args.split('').filter((ch) => ch === name).length;
+        for (let i = 0; i < times; i++) {
+          this.shiftLines(lines.start, lines.end, name === '>' ? 1 : -1);
+        }
+        this.state.cursor = { line: lines.end, col: this.firstNonBlank(lines.end) };
         break;
+      }
 
-      case '$':
-        this.state.cursor.col = this.getCurrentLine().length;
-        this.updateSelection();
+      case 'registers':
+      case 'display':
+        this.showRegisters(args);
         break;
 
-      case 'd':
-      case 'x':
-        this.deleteSelection();
-        this.state.mode = 'normal';
+      case 'marks':
+        this.showMarks(args);
         break;
 
-      case 'y':
-        this.yankSelection();
-        this.state.mode = 'normal';
-        this.state.selection = null;
+      case 'nohlsearch':
+        this.highlightSearch = false;
         break;
 
-      case 'c':
-        this.deleteSelection();
-        this.state.mode = 'insert';
+      case 'set':
+        this.setCommand(args);
         break;
 
       default:
-        return false;
+        this.state.message = `E492: Not an editor command: ${text}`;
+        this.abortReplay = true;
     }
-
-    this.notifyChange();
-    return true;
   }
 
-  private handleCommandMode(key: string, e: KeyboardEvent): boolean {
-    switch (key) {
-      case 'Escape':
-        this.state.mode = 'normal';
-        this.state.commandBuffer = '';
-        break;
+  /**
+   * `:g/pattern/command` runs an Ex command on every matching line (`:g!` and
+   * `:v` on every other line). Lines are marked first, so commands that
+   * delete or add lines don't throw the rest off.
+   */
+  private runGlobal(range: ExRange, args: string, invert: boolean): void {
+    if (this.runningGlobal) {
+      this.state.message = 'E147: Cannot do :global recursive';
+      return;
+    }
 
-      case 'Enter':
-        e.preventDefault();
-        this.executeCommand();
-        break;
+    const parsed = parseGlobal(args);
+    if (!parsed) {
+      this.state.message = 'E146: Regular expressions can\'t be delimited by letters';
+      this.abortReplay = true;
+      return;
+    }
 
-      case 'Backspace':
-        e.preventDefault();
-        if (this.state.commandBuffer.length > 1) {
-          this.state.commandBuffer = this.state.commandBuffer.slice(0, -1);
-        } else {
-          this.state.mode = 'normal';
-          this.state.commandBuffer = '';
-        }
-        break;
+    const pattern = parsed.pattern || this.state.lastSearch;
+    const regex = pattern ? compilePattern(pattern, this.options) : null;
+    if (!regex) {
+      this.state.message = 'E35: No previous regular expression';
+      this.abortReplay = true;
+      return;
+    }
+    this.state.lastSearch = pattern;
+    this.state.registers['/'] = pattern;
+    this.highlightSearch = true;
+
+    const marked: number[] = [];
+    for (let line = range.start; line <= range.end; line++) {
+      regex.lastIndex = 0;
+      if (regex.test(this.state.lines[line]) !== invert) marked.push(line);
+    }
+    if (marked.length === 0) {
+      this.state.message = invert ? `Pattern found in every line: ${pattern}` : `Pattern not found: ${pattern}`;
+      return;
+    }
 
-      default:
-        if (key.length === 1) {
-          e.preventDefault();
-          this.state.commandBuffer += key;
-        }
+    const linesBefore = this.state.lines.length;
+    this.runningGlobal = true;
+    this.forEachMarkedLine(marked, (line) => {
+      this.state.cursor = { line, col: 0 };
+      this.runExCommand(parsed.command);
+    });
+    this.runningGlobal = false;
+
+    const difference = this.state.lines.length - linesBefore;
+    if (difference !== 0) {
+      this.state.message = `${Math.abs(difference)} ${difference < 0 ? 'fewer' : 'more'} line(s)`;
     }
+  }
 
-    this.notifyChange();
-    return true;
+  /**
+   * `:normal keys` types the keys in normal mode, once at the cursor or at the
+   * start of every line in the range. Whatever is left unfinished (insert
+   * mode, a pending operator) is ended as if with Escape.
+   */
+  private runNormal(range: ExRange | null, keys: string): void {
+    if (!keys) return;
+
+    const run = () => {
+      this.state.mode = 'normal';
+      this.pendingKeys = [];
+      this.abortReplay = false;
+      for (const key of keys) {
+        if (this.abortReplay) break;
+        this.feedKey(key);
+      }
+      if (this.state.mode !== 'normal' || this.pendingKeys.length > 0) {
+        this.feedKey('Escape');
+      }
+      this.abortReplay = false;
+    };
+
+    this.exNormalDepth++;
+    if (range) {
+      const lines = Array.from({ length: range.end - range.start + 1 }, (_, i) => range.start + i);
+      this.forEachMarkedLine(lines, (line) => {
+        this.state.cursor = { line, col: 0 };
+        run();
+      });
+    } else {
+      run();
+    }
+    this.exNormalDepth--;
   }
 
-  private executeCommand(): void {
-    const cmd = this.state.commandBuffer;
+  // Run `action` for each line in turn, following the lines as earlier runs add and delete lines
+  private forEachMarkedLine(lines: number[], action: (line: number) => void): void {
+    let pending = [...lines];
+    while (pending.length > 0) {
+      const line = pending.shift()!;
+      const before = [...this.state.lines];
+      action(line);
+      this.followMarks();
+      const mapLine = lineMapper(before, this.state.lines, line);
+      pending = pending.map(mapLine).filter((mapped): mapped is number => mapped !== null);
+    }
+  }
 
-    if (cmd.startsWith('/')) {
-      // Search
-      const pattern = cmd.slice(1);
-      if (pattern) {
-        this.state.lastSearch = pattern;
-        this.searchNext();
-      }
-    } else if (cmd.startsWith(':')) {
-      const command = cmd.slice(1);
+  private printLines(range: ExRange): void {
+    // Under :g every printed line goes into the same panel
+    const printed = this.state.output?.lines ?? [];
+    this.state.output = {
+      title: this.state.output?.title ?? `:${this.state.registers[':']}`,
+      lines: [...printed, ...this.state.lines.slice(range.start, range.end + 1)],
+    };
+    this.state.cursor = { line: range.end, col: this.firstNonBlank(range.end) };
+  }
 
-      // Handle :w, :q, :wq
-      if (command === 'w' || command === 'write') {
-        this.state.message = 'File saved (simulated)';
-      } else if (command === 'q' || command === 'quit') {
-        this.state.message = 'Would quit (simulated)';
-      } else if (command === 'wq' || command === 'x') {
-        this.state.message = 'Saved and quit (simulated)';
-      } else if (/^\d+$/.test(command)) {
-        // Go to line
-        const lineNum = parseInt(command) - 1;
-        this.state.cursor.line = Math.max(0, Math.min(lineNum, this.state.lines.length - 1));
-        this.state.cursor = this.clampCursor(this.state.cursor);
-      } else if (command.startsWith('s/')) {
-        // Substitution
-        this.executeSubstitution(command);
-      }
+  // Line of a mark used in an Ex address
+  private markLine(name: string): number | null {
+    const mark = this.state.marks[markKey(name)];
+    return mark && mark.line < this.state.lines.length ? mark.line : null;
+  }
+
+  // `/pattern/` in an address: the next matching line after `fromLine`, wrapping around
+  private searchLine(pattern: string, fromLine: number, forward: boolean): number | null {
+    if (pattern) {
+      this.state.lastSearch = pattern;
+      this.state.registers['/'] = pattern;
     }
+    const regex = this.state.lastSearch ? compilePattern(this.state.lastSearch, this.options) : null;
+    if (!regex) return null;
 
-    this.state.mode = 'normal';
-    this.state.commandBuffer = '';
+    const from = { line: fromLine, col: forward ? this.state.lines[fromLine].length : 0 };
+    const result = findNextMatch(this.state.lines, regex, from, forward, { type: 'none', amount: 0 });
+    return result ? result.match.line : null;
   }
 
-  private executeSubstitution(cmd: string): void {
-    const parts = cmd.split('/');
-    if (parts.length >= 3) {
-      const search = parts[1];
-      const replace = parts[2];
-      const flags = parts[3] || '';
+  /** `:set`: change options, show them, or list them in the output panel. */
+  private setCommand(args: string): void {
+    if (!args || args === 'all') {
+      this.state.output = { title: `:set${args ? ' all' : ''}`, lines: listOptions(this.options, !!args) };
+      return;
+    }
 
-      const line = this.getCurrentLine();
-      if (flags.includes('g')) {
-        this.setCurrentLine(line.split(search).join(replace));
-      } else {
-        this.setCurrentLine(line.replace(search, replace));
-      }
+    const { options, shown, error } = applySetCommand(args, this.options);
+    this.applyOptions(options);
+    if (this.onOptionsChange) {
+      this.onOptionsChange(this.getOptions());
+    }
+    if (error) {
+      this.state.message = error;
+      this.abortReplay = true;
+    } else if (shown.length > 0) {
+      this.state.message = shown.join('  ');
     }
   }
 
-  private moveWordForward(): void {
-    const line = this.getCurrentLine();
-    let col = this.state.cursor.col;
+  private showRegisters(names: string): void {
+    const rows = formatRegisters(this.state.registers, names);
+    this.state.output = {
+      title: ':registers',
+      lines: ['Type Name Content', ...rows],
+    };
+  }
+
+  private showMarks(names: string): void {
+    const rows = formatMarks(this.state.marks, this.state.lines, names);
+    if (rows.length === 0) {
+      this.state.message = names ? `E283: No marks matching "${names}"` : 'E283: No marks set';
+      return;
+    }
+    this.state.output = {
+      title: ':marks',
+      lines: ['mark  line   col  text', ...rows],
+    };
+  }
 
-    // Skip current word
-    while (col < line.length && /\w/.test(line[col])) {
-      col++;
+  /**
+   * `:s`. Without a pattern it uses the last search, without any arguments
+   * (`:s`, `:&&`) it repeats the last substitution. The `n` flag only counts
+   * matches and `c` asks about each one (see handleConfirmKey).
+   */
+  private substitute(range: ExRange, parsed: ReturnType<typeof parseSubstitute>): void {
+    const previous = this.lastSubstitution;
+    const { substitution, repeat } = parsed;
+    if (repeat && !previous) {
+      this.state.message = 'E35: No previous regular expression';
+      this.abortReplay = true;
+      return;
     }
-    // Skip whitespace
-    while (col < line.length && /\s/.test(line[col])) {
-      col++;
+
+    // `&` as the first flag keeps the flags of the previous substitution
+    let flags = substitution.flags ?? '';
+    if (flags.startsWith('&')) {
+      flags = (previous?.flags ?? '') + flags.slice(1);
     }
 
-    if (col >= line.length && this.state.cursor.line < this.state.lines.length - 1) {
-      this.state.cursor.line++;
-      this.state.cursor.col = 0;
-      // Skip leading whitespace on new line
-      const newLine = this.getCurrentLine();
-      while (this.state.cursor.col < newLine.length && /\s/.test(newLine[this.state.cursor.col])) {
-        this.state.cursor.col++;
+    const pattern = repeat ? previous!.pattern : substitution.pattern || this.state.lastSearch;
+    const replacement = repeat
+      ? previous!.replacement
+      : resolveTilde(substitution.replacement ?? '', previous?.replacement ?? '');
+    if (!pattern) {
+      this.state.message = 'E35: No previous regular expression';
+      this.abortReplay = true;
+      return;
+    }
+
+    this.lastSubstitution = { pattern, replacement, flags, count: null };
+    this.state.lastSearch = pattern;
+    this.state.registers['/'] = pattern;
+    this.highlightSearch = true;
+
+    const options = flags.includes('I')
+      ? { ignorecase: false, smartcase: false }
+      : flags.includes('i') ? { ignorecase: true, smartcase: false } : this.options;
+    const regex = compilePattern(pattern, options);
+    if (!regex) {
+      this.state.message = `E486: Pattern not found: ${pattern}`;
+      this.abortReplay = true;
+      return;
+    }
+
+    // A count after the flags covers that many lines from the end of the range
+    let { start, end } = range;
+    if (substitution.count) {
+      start = end;
+      end = Math.min(this.state.lines.length - 1, start + substitution.count - 1);
+    }
+
+    const global = flags.includes('g');
+    if (flags.includes('n')) {
+      this.countMatches(regex, start, end, global);
+      return;
+    }
+    if (flags.includes('c')) {
+      this.confirmSession = {
+        regex, replacement, global, end,
+        line: start, col: 0, match: null, lineChanged: false,
+        substitutions: 0, changedLines: 0, lastLine: -1,
+      };
+      if (!this.nextConfirmMatch()) this.finishConfirm(pattern);
+      return;
+    }
+
+    let substitutions = 0;
+    let changedLines = 0;
+    let lastLine = -1;
+
+    for (let line = start; line <= end; line++) {
+      const result = substituteLine(this.state.lines[line], regex, replacement, global);
+      if (result.count === 0) continue;
+
+      // `\r` in the replacement splits the line
+      const parts = result.text.split('\n');
+      this.state.lines.splice(line, 1, ...parts);
+      substitutions += result.count;
+      changedLines++;
+      line += parts.length - 1;
+      end += parts.length - 1;
+      lastLine = line;
+    }
+
+    if (substitutions === 0) {
+      if (!flags.includes('e')) {
+        this.state.message = `E486: Pattern not found: ${pattern}`;
+        this.abortReplay = true;
       }
-    } else {
-      this.state.cursor.col = Math.min(col, Math.max(0, line.length - 1));
+      return;
     }
+
+    this.state.cursor = { line: lastLine, col: this.firstNonBlank(lastLine) };
+    this.state.message = `${pluralize(substitutions, 'substitution')} on ${pluralize(changedLines, 'line')}`;
   }
 
-  private moveWordBackward(): void {
-    const line = this.getCurrentLine();
-    let col = this.state.cursor.col;
+  private countMatches(regex: RegExp, start: number, end: number, global: boolean): void {
+    let matches = 0;
+    let lines = 0;
+
+    findMatches(this.state.lines.slice(start, end + 1), regex).forEach((match, i, all) => {
+      const firstOnLine = i === 0 || all[i - 1].line !== match.line;
+      if (firstOnLine) lines++;
+      if (global || firstOnLine) matches++;
+    });
+
+    this.state.message = matches === 0
+      ? `E486: Pattern not found: ${this.state.lastSearch}`
+      : `${pluralize(matches, 'match', 'matches')} on ${pluralize(lines, 'line')}`;
+  }
 
-    // Move back if at start of word
-    if (col > 0) col--;
+  // Find the next match to ask about and put the cursor on it
+  private nextConfirmMatch(): boolean {
+    const session = this.confirmSession!;
+
+    while (session.line <= session.end) {
+      const text = this.state.lines[session.line];
+      session.regex.lastIndex = session.col;
+      const match = session.col <= text.length ? session.regex.exec(text) : null;
+
+      if (match) {
+        session.match = match;
+        this.state.cursor = { line: session.line, col: match.index };
+        const replacement = session.replacement.replace(/\n/g, '^M');
+        this.state.message = `replace with ${replacement} (y/n/a/q/l)?`;
+        return true;
+      }
 
-    // Skip whitespace
-    while (col > 0 && /\s/.test(line[col])) {
-      col--;
+      session.line++;
+      session.col = 0;
+      session.lineChanged = false;
     }
-    // Skip to start of word
-    while (col > 0 && /\w/.test(line[col - 1])) {
-      col--;
+
+    return false;
+  }
+
+  private replaceConfirmMatch(): void {
+    const session = this.confirmSession!;
+    const match = session.match!;
+    const text = this.state.lines[session.line];
+    const replaced = expandReplacement(session.replacement, match);
+    const parts = (text.slice(0, match.index) + replaced + text.slice(match.index + match[0].length)).split('\n');
+
+    this.state.lines.splice(session.line, 1, ...parts);
+    session.substitutions++;
+    if (!session.lineChanged) {
+      session.changedLines++;
+      session.lineChanged = true;
     }
+    session.end += parts.length - 1;
+    session.line += parts.length - 1;
+    session.lastLine = session.line;
+
+    // Continue after the replacement; an empty match moves on one character
+    const replacedTail = replaced.split('\n').pop()!;
+    session.col = (parts.length > 1 ? replacedTail.length : match.index + replaced.length) + (match[0].length === 0 ? 1 : 0);
+    if (!session.global) this.skipConfirmLine();
+  }
 
-    this.state.cursor.col = col;
+  private skipConfirmMatch(): void {
+    const session = this.confirmSession!;
+    const match = session.match!;
+    session.col = match.index + Math.max(1, match[0].length);
+    if (!session.global) this.skipConfirmLine();
   }
 
-  private moveToEndOfWord(): void {
-    const line = this.getCurrentLine();
-    let col = this.state.cursor.col;
+  private skipConfirmLine(): void {
+    const session = this.confirmSession!;
+    session.line++;
+    session.col = 0;
+    session.lineChanged = false;
+  }
+
+  // y: replace, n: skip, a: replace this and the rest, l: replace this and stop, q: stop
+  private handleConfirmKey(key: string): boolean {
+    const pattern = this.state.lastSearch;
+
+    switch (key) {
+      case 'y':
+        this.replaceConfirmMatch();
+        if (!this.nextConfirmMatch()) this.finishConfirm(pattern);
+        break;
+
+      case 'n':
+        this.skipConfirmMatch();
+        if (!this.nextConfirmMatch()) this.finishConfirm(pattern);
+        break;
 
-    // Move forward if at end of word
-    if (col < line.length - 1) col++;
+      case 'a':
+        do {
+          this.replaceConfirmMatch();
+        } while (this.nextConfirmMatch());
+        this.finishConfirm(pattern);
+        break;
+
+      case 'l':
+        this.replaceConfirmMatch();
+        this.finishConfirm(pattern);
+        break;
 
-    // Skip whitespace
-    while (col < line.length && /\s/.test(line[col])) {
-      col++;
+      case 'q':
+      case 'Escape':
+        this.finishConfirm(pattern);
+        break;
     }
-    // Move to end of word
-    while (col < line.length - 1 && /\w/.test(line[col + 1])) {
-      col++;
+
+    this.notifyChange();
+    return true;
+  }
+
+  private finishConfirm(pattern: string): void {
+    const session = this.confirmSession!;
+    this.confirmSession = null;
+    this.state.mode = 'normal';
+
+    if (session.substitutions === 0) {
+      this.state.message = session.match ? '' : `E486: Pattern not found: ${pattern}`;
+      return;
     }
 
-    this.state.cursor.col = Math.min(col, Math.max(0, line.length - 1));
+    this.state.cursor = { line: session.lastLine, col: this.firstNonBlank(session.lastLine) };
+    this.state.message = `${pluralize(session.substitutions, 'substitution')} on ${pluralize(session.changedLines, 'line')}`;
   }
 
   private insertText(text: string): void {
@@ -724,11 +2737,15 @@ export class VimEngine {
   private insertNewline(): void {
     const line = this.getCurrentLine();
     const col = this.state.cursor.col;
+    const indent = this.autoIndentFor(this.state.cursor.line);
+    // With autoindent the text moved to the new line loses its own leading blanks
+    const rest = indent ? line.substring(col).trimStart() : line.substring(col);
 
     this.setCurrentLine(line.substring(0, col));
-    this.state.lines.splice(this.state.cursor.line + 1, 0, line.substring(col));
+    this.state.lines.splice(this.state.cursor.line + 1, 0, rest);
     this.state.cursor.line++;
     this.state.cursor.col = 0;
+    this.applyAutoIndent(indent);
   }
 
   private backspace(): void {
@@ -748,127 +2765,104 @@ export class VimEngine {
     }
   }
 
-  private deleteChar(): void {
-    const line = this.getCurrentLine();
-    const col = this.state.cursor.col;
-
-    if (col < line.length) {
-      this.state.registers['"'] = line[col];
-      this.setCurrentLine(line.substring(0, col) + line.substring(col + 1));
-      this.state.cursor = this.clampCursor(this.state.cursor);
+  // Ctrl-W: the blanks before the cursor and the word before them; at the start of a line, the line break
+  private deleteWordBefore(): void {
+    const { col } = this.state.cursor;
+    if (col === 0) {
+      this.backspace();
+      return;
     }
-  }
-
-  private deleteCharBefore(): void {
-    const col = this.state.cursor.col;
 
-    if (col > 0) {
-      const line = this.getCurrentLine();
-      this.state.registers['"'] = line[col - 1];
-      this.setCurrentLine(line.substring(0, col - 1) + line.substring(col));
-      this.state.cursor.col--;
+    const line = this.getCurrentLine();
+    let start = col;
+    while (start > 0 && /\s/.test(line[start - 1])) start--;
+    if (start > 0) {
+      const isWord = /\w/.test(line[start - 1]);
+      while (start > 0 && /\S/.test(line[start - 1]) && /\w/.test(line[start - 1]) === isWord) start--;
     }
-  }
 
-  private deleteLine(count: number = 1): void {
-    const startLine = this.state.cursor.line;
-    const endLine = Math.min(startLine + count, this.state.lines.length);
-    const deleted = this.state.lines.splice(startLine, endLine - startLine);
-    this.state.registers['"'] = deleted.join('\n') + '\n';
+    this.setCurrentLine(line.substring(0, start) + line.substring(col));
+    this.state.cursor.col = start;
+  }
 
-    if (this.state.lines.length === 0) {
-      this.state.lines = [''];
+  /**
+   * Ctrl-U: the text typed since insert mode began on this line; when there
+   * is none, everything back to the indent, and then the indent itself.
+   */
+  private deleteLineBefore(): void {
+    const { line, col } = this.state.cursor;
+    if (col === 0) {
+      this.backspace();
+      return;
     }
 
-    this.state.cursor.line = Math.min(this.state.cursor.line, this.state.lines.length - 1);
-    this.state.cursor = this.clampCursor(this.state.cursor);
-  }
-
-  private yankLine(count: number = 1): void {
-    const startLine = this.state.cursor.line;
-    const endLine = Math.min(startLine + count, this.state.lines.length);
-    const yanked = this.state.lines.slice(startLine, endLine);
-    this.state.registers['"'] = yanked.join('\n') + '\n';
-    this.state.message = `${count} line(s) yanked`;
-  }
+    const text = this.getCurrentLine();
+    const indent = text.length - text.trimStart().length;
+    const start = this.insertStart;
+    const from = start && start.line === line && start.col < col ? start.col : col > indent ? indent : 0;
 
-  private changeLine(): void {
-    this.setCurrentLine('');
-    this.state.cursor.col = 0;
-    this.state.mode = 'insert';
+    this.setCurrentLine(text.substring(0, from) + text.substring(col));
+    this.state.cursor.col = from;
   }
 
-  private deleteWord(count: number = 1): void {
-    for (let i = 0; i < count; i++) {
-      const line = this.getCurrentLine();
-      const startCol = this.state.cursor.col;
-      let endCol = startCol;
-
-      // Find word boundary
-      while (endCol < line.length && /\w/.test(line[endCol])) {
-        endCol++;
-      }
-      // Include trailing whitespace
-      while (endCol < line.length && /\s/.test(line[endCol])) {
-        endCol++;
-      }
-
-      if (endCol > startCol) {
-        this.state.registers['"'] = line.substring(startCol, endCol);
-        this.setCurrentLine(line.substring(0, startCol) + line.substring(endCol));
-      }
+  // Ctrl-R {register}: insert the register's text as it is, leaving the cursor after it.
+  // In replace mode text within one line is typed over the line instead
+  private insertRegister(name: string): void {
+    if (!isValidRegister(name)) return;
+    const text = readRegister(this.state.registers, name);
+    if (!text) return;
+    if (this.state.mode === 'replace' && !text.includes('\n')) {
+      this.typeText(text);
+      return;
     }
-    this.state.cursor = this.clampCursor(this.state.cursor);
+
+    const last = this.insertTextAt(this.state.cursor, text);
+    const lastPart = text.substring(text.lastIndexOf('\n') + 1);
+    this.state.cursor = { line: last.line, col: lastPart ? last.col + 1 : 0 };
   }
 
-  private changeWord(): void {
-    const line = this.getCurrentLine();
-    const startCol = this.state.cursor.col;
-    let endCol = startCol;
+  // Ctrl-T / Ctrl-D: indent the cursor line to the next or previous multiple of shiftwidth
+  private changeLineIndent(direction: 1 | -1): void {
+    const text = this.getCurrentLine();
+    const shifted = roundShiftLine(text, direction, this.options);
+    this.setCurrentLine(shifted);
+    this.state.cursor.col = Math.max(0, this.state.cursor.col + shifted.length - text.length);
+  }
 
-    while (endCol < line.length && /\w/.test(line[endCol])) {
-      endCol++;
-    }
+  // Indent for a new line opened from `line`, when autoindent is on
+  private autoIndentFor(line: number): string {
+    if (!this.options.autoindent) return '';
+    return indentString(indentWidth(this.state.lines[line] ?? '', this.options), this.options);
+  }
 
-    this.state.registers['"'] = line.substring(startCol, endCol);
-    this.setCurrentLine(line.substring(0, startCol) + line.substring(endCol));
-    this.state.mode = 'insert';
+  // Start a new line with the given indent, remembering it so it can go again if nothing is typed
+  private applyAutoIndent(indent: string): void {
+    if (!indent) return;
+    this.setCurrentLine(indent + this.getCurrentLine());
+    this.state.cursor.col = indent.length;
+    this.autoIndentLine = this.state.cursor.line;
   }
 
-  private deleteToEnd(): void {
-    const line = this.getCurrentLine();
-    const col = this.state.cursor.col;
-    this.state.registers['"'] = line.substring(col);
-    this.setCurrentLine(line.substring(0, col));
-    this.state.cursor = this.clampCursor(this.state.cursor);
+  // Like Vim, leaving a line that only holds its autoindent removes the indent
+  private dropUnusedIndent(line: number | null): void {
+    if (line === null || this.state.lines[line].trim()) return;
+    this.state.lines[line] = '';
+    if (this.state.cursor.line === line) this.state.cursor.col = 0;
   }
 
-  private deleteInQuotes(quote: string): void {
+  private deleteChar(): void {
     const line = this.getCurrentLine();
     const col = this.state.cursor.col;
 
-    let start = line.lastIndexOf(quote, col);
-    let end = line.indexOf(quote, col + 1);
-
-    if (start === -1 || end === -1) {
-      start = line.indexOf(quote);
-      end = line.indexOf(quote, start + 1);
-    }
-
-    if (start !== -1 && end !== -1 && start < end) {
-      this.state.registers['"'] = line.substring(start + 1, end);
-      this.setCurrentLine(line.substring(0, start + 1) + line.substring(end));
-      this.state.cursor.col = start + 1;
+    if (col < line.length) {
+      this.setCurrentLine(line.substring(0, col) + line.substring(col + 1));
+      this.state.cursor = this.clampCursor(this.state.cursor);
     }
   }
 
-  private changeInQuotes(quote: string): void {
-    this.deleteInQuotes(quote);
-    this.state.mode = 'insert';
-  }
-
-  private paste(position: 'before' | 'after'): void {
-    const text = this.state.registers['"'];
+  // `3p` puts the register three times over
+  private paste(position: 'before' | 'after', count: number): void {
+    const text = readRegister(this.state.registers, this.register).repeat(count);
     if (!text) return;
 
     if (text.endsWith('\n')) {
@@ -879,14 +2873,26 @@ export class VimEngine {
       this.state.cursor.line = insertLine;
       this.state.cursor.col = 0;
     } else {
-      // Character paste
-      const line = this.getCurrentLine();
-      const col = position === 'after' ? this.state.cursor.col + 1 : this.state.cursor.col;
-      this.setCurrentLine(line.substring(0, col) + text + line.substring(col));
-      this.state.cursor.col = col + text.length - 1;
+      // Character paste; text spanning lines leaves the cursor at its start
+      const col = position === 'after' ? Math.min(this.state.cursor.col + 1, this.getCurrentLine().length) : this.state.cursor.col;
+      const last = this.insertTextAt({ line: this.state.cursor.line, col }, text);
+      this.state.cursor = text.includes('\n') ? { line: this.state.cursor.line, col } : last;
     }
   }
 
+  // Insert characterwise text, which may span lines; returns where its last character ends up
+  private insertTextAt(position: CursorPosition, text: string): CursorPosition {
+    const line = this.state.lines[position.line];
+    const parts = text.split('\n');
+    const last = { line: position.line + parts.length - 1, col: Math.max(0, parts[parts.length - 1].length - 1) };
+
+    parts[0] = line.substring(0, position.col) + parts[0];
+    if (parts.length === 1) last.col += position.col;
+    parts[parts.length - 1] += line.substring(position.col);
+    this.state.lines.splice(position.line, 1, ...parts);
+    return last;
+  }
+
   private joinLines(): void {
     if (this.state.cursor.line < this.state.lines.length - 1) {
       const currentLine = this.getCurrentLine();
@@ -896,124 +2902,269 @@ export class VimEngine {
     }
   }
 
+  /**
+   * Extend the visual selection to a text object. When the object is already
+   * selected, grow to the next enclosing one, so `vi(i(` selects the outer parens.
+   */
+  private selectTextObject(textObject: KeyCommand): void {
+    if (!this.state.selection) return;
+
+    const current = orderSelection(this.state.selection);
+    const isCurrent = (sel: Selection) =>
+      sel.start.line === current.start.line && sel.start.col === current.start.col &&
+      sel.end.line === current.end.line && sel.end.col === current.end.col;
+    const notAfter = (a: CursorPosition, b: CursorPosition) => a.line < b.line || (a.line === b.line && a.col <= b.col);
+    const isInside = (sel: Selection) => notAfter(current.start, sel.start) && notAfter(sel.end, current.end);
+
+    // Brackets are found from the start of the selection, since the cursor can
+    // sit on an inner `)`, and grow until the pair covers more than is selected
+    const bracket = isBracketObject(textObject.char!);
+    const from = bracket ? current.start : this.state.cursor;
+    const grown = (sel: Selection) => !(bracket ? isInside(sel) : isCurrent(sel));
+
+    let selection: Selection | null = null;
+    let linewise = false;
+    for (let count = 1; count <= 10; count++) {
+      const range = this.resolveTextObject(textObject, count, from);
+      selection = range ? this.rangeToSelection(range) : null;
+      linewise = range?.linewise ?? false;
+      if (!selection || grown(selection)) break;
+    }
+    if (!selection) return;
+
+    // Objects made of whole lines, such as `ap`, switch to linewise selection
+    if (linewise && this.state.mode === 'visual') {
+      this.state.mode = 'visual-line';
+    }
+
+    this.state.selection = selection;
+    this.state.cursor = { ...selection.end };
+  }
+
+  // Selections are inclusive of their last character, ranges are not
+  private rangeToSelection(range: TextRange): Selection | null {
+    const { start, end } = range;
+
+    if (range.linewise) {
+      return { start: { line: start.line, col: 0 }, end: { line: end.line, col: this.state.lines[end.line].length } };
+    }
+    if (start.line === end.line && start.col >= end.col) {
+      return null;
+    }
+    if (end.col === 0) {
+      const line = end.line - 1;
+      return { start: { ...start }, end: { line, col: Math.max(0, this.state.lines[line].length - 1) } };
+    }
+    return { start: { ...start }, end: { line: end.line, col: end.col - 1 } };
+  }
+
+  /**
+   * `.` after a visual change acts on the same amount of text from the cursor,
+   * so record the change as the equivalent normal-mode command.
+   */
+  private visualRepeatCommand(operator: Operator): NormalCommand | null {
+    if (!this.state.selection) return null;
+
+    const { start, end } = orderSelection(this.state.selection);
+    if (this.state.mode === 'visual-line') {
+      return { count: end.line - start.line + 1, register: this.register, operator, motion: null, textObject: null, action: null };
+    }
+    if (this.state.mode === 'visual-block' || start.line !== end.line) return null;
+
+    return {
+      count: end.col - start.col + 1,
+      register: this.register,
+      operator,
+      motion: { key: 'l' },
+      textObject: null,
+      action: null,
+    };
+  }
+
   private updateSelection(): void {
     if (this.state.selection) {
       this.state.selection.end = { ...this.state.cursor };
     }
   }
 
-  private deleteSelection(): void {
-    if (!this.state.selection) return;
+  /**
+   * What a characterwise or linewise selection covers, as an operator range.
+   * A selection reaching past the end of a line takes the line break with it.
+   */
+  private selectionRange(selection: Selection): TextRange {
+    const { start, end } = orderSelection(selection);
 
-    const { start, end } = this.normalizeSelection(this.state.selection);
+    if (this.state.mode === 'visual-line') {
+      return { start: { line: start.line, col: 0 }, end: { line: end.line, col: 0 }, linewise: true };
+    }
+    if (end.col >= this.state.lines[end.line].length && end.line < this.state.lines.length - 1) {
+      return { start, end: { line: end.line + 1, col: 0 }, linewise: false };
+    }
+    return { start, end: { line: end.line, col: end.col + 1 }, linewise: false };
+  }
 
-    if (start.line === end.line) {
-      const line = this.state.lines[start.line];
-      this.state.registers['"'] = line.substring(start.col, end.col + 1);
-      this.state.lines[start.line] = line.substring(0, start.col) + line.substring(end.col + 1);
-    } else {
-      const startLine = this.state.lines[start.line];
-      const endLine = this.state.lines[end.line];
+  // The part of each line a block covers
+  private blockText(selection: Selection): string {
+    const { top, bottom, left, right } = blockBounds(selection);
+    return this.state.lines
+      .slice(top, bottom + 1)
+      .map((text) => text.substring(left, right + 1))
+      .join('\n');
+  }
 
-      let yanked = startLine.substring(start.col);
-      for (let i = start.line + 1; i < end.line; i++) {
-        yanked += '\n' + this.state.lines[i];
-      }
-      yanked += '\n' + endLine.substring(0, end.col + 1);
-      this.state.registers['"'] = yanked;
+  private deleteSelection(): void {
+    const selection = this.state.selection;
+    if (!selection) return;
+    this.state.selection = null;
+
+    if (this.state.mode !== 'visual-block') {
+      const range = this.selectionRange(selection);
+      this.deleteRange(range, isSmallDelete(range, undefined));
+      return;
+    }
 
-      this.state.lines[start.line] = startLine.substring(0, start.col) + endLine.substring(end.col + 1);
-      this.state.lines.splice(start.line + 1, end.line - start.line);
+    const { top, bottom, left, right } = blockBounds(selection);
+    storeRegister(this.state.registers, this.register, this.blockText(selection), 'delete', top === bottom);
+    for (let line = top; line <= bottom; line++) {
+      const text = this.state.lines[line];
+      this.state.lines[line] = text.substring(0, left) + text.substring(right + 1);
     }
+    this.state.cursor = this.clampCursor({ line: top, col: left });
+  }
 
-    this.state.cursor = { ...start };
+  private changeSelection(): void {
+    const selection = this.state.selection;
+    if (!selection) return;
     this.state.selection = null;
-    this.state.cursor = this.clampCursor(this.state.cursor);
+
+    const range = this.selectionRange(selection);
+    this.changeRange(range, isSmallDelete(range, undefined));
   }
 
   private yankSelection(): void {
-    if (!this.state.selection) return;
+    const selection = this.state.selection;
+    if (!selection) return;
 
-    const { start, end } = this.normalizeSelection(this.state.selection);
+    if (this.state.mode !== 'visual-block') {
+      this.yankRange(this.selectionRange(selection));
+      return;
+    }
 
-    if (start.line === end.line) {
-      const line = this.state.lines[start.line];
-      this.state.registers['"'] = line.substring(start.col, end.col + 1);
-    } else {
-      const startLine = this.state.lines[start.line];
-      const endLine = this.state.lines[end.line];
+    const { top, bottom, left } = blockBounds(selection);
+    storeRegister(this.state.registers, this.register, this.blockText(selection), 'yank');
+    this.state.marks['['] = { line: top, col: left };
+    this.state.marks[']'] = this.clampCursor({ line: bottom, col: Math.max(selection.start.col, selection.end.col) });
+    this.state.cursor = this.clampCursor({ line: top, col: left });
+  }
 
-      let yanked = startLine.substring(start.col);
-      for (let i = start.line + 1; i < end.line; i++) {
-        yanked += '\n' + this.state.lines[i];
-      }
-      yanked += '\n' + endLine.substring(0, end.col + 1);
-      this.state.registers['"'] = yanked;
+  private runSearch(delimiter: string, text: string): void {
+    if (!this.setSearch(delimiter, text)) return;
+
+    const result = this.resolveSearch(false, 1);
+    if (result) {
+      this.recordJump();
+      this.state.cursor = this.clampCursor(result.target);
+    } else {
+      this.abortReplay = true;
     }
   }
 
-  private normalizeSelection(sel: Selection): Selection {
-    if (sel.start.line > sel.end.line ||
-        (sel.start.line === sel.end.line && sel.start.col > sel.end.col)) {
-      return { start: sel.end, end: sel.start };
+  // Make a typed search the last one, for `n` to go to; an empty pattern keeps the last
+  private setSearch(delimiter: string, text: string): boolean {
+    const { pattern, offset } = parseSearchCommand(text, delimiter);
+    if (pattern) {
+      this.state.lastSearch = pattern;
+      this.state.registers['/'] = pattern;
+    } else if (!this.state.lastSearch) {
+      this.state.message = 'E35: No previous regular expression';
+      this.abortReplay = true;
+      return false;
     }
-    return sel;
-  }
 
-  private searchNext(): void {
-    if (!this.state.lastSearch) return;
+    this.searchForward = delimiter === '/';
+    this.searchOffset = offset;
+    return true;
+  }
 
-    const pattern = this.state.lastSearch.toLowerCase();
-    let startLine = this.state.cursor.line;
-    let startCol = this.state.cursor.col + 1;
+  /**
+   * Where the last search lands `count` matches away, in the direction it was
+   * made in (or the opposite one for `N`). A line offset makes the motion
+   * linewise and an end offset inclusive, so `d/foo/e` deletes the match too.
+   */
+  private resolveSearch(reverse: boolean, count: number, from: CursorPosition = this.state.cursor): MotionTarget | null {
+    const pattern = this.state.lastSearch;
+    const regex = pattern ? compilePattern(pattern, this.options) : null;
+    if (!regex) {
+      this.state.message = pattern ? `E486: Pattern not found: ${pattern}` : 'E35: No previous regular expression';
+      return null;
+    }
 
-    for (let i = 0; i < this.state.lines.length; i++) {
-      const lineIdx = (startLine + i) % this.state.lines.length;
-      const line = this.state.lines[lineIdx].toLowerCase();
-      const searchStart = i === 0 ? startCol : 0;
-      const idx = line.indexOf(pattern, searchStart);
+    const forward = this.searchForward !== reverse;
+    let position = from;
+    let result: SearchResult | null = null;
+    let wrapped = false;
 
-      if (idx !== -1) {
-        this.state.cursor = { line: lineIdx, col: idx };
-        return;
+    for (let i = 0; i < count; i++) {
+      result = findNextMatch(this.state.lines, regex, position, forward, this.searchOffset);
+      if (!result) {
+        this.state.message = `E486: Pattern not found: ${pattern}`;
+        return null;
       }
+      wrapped = wrapped || result.wrapped;
+      position = this.searchOffset.type === 'line' ? { line: result.match.line, col: result.match.start } : result.target;
     }
-  }
 
-  private searchPrev(): void {
-    if (!this.state.lastSearch) return;
-
-    const pattern = this.state.lastSearch.toLowerCase();
-    let startLine = this.state.cursor.line;
-    let startCol = this.state.cursor.col - 1;
+    this.highlightSearch = true;
+    if (wrapped) {
+      this.state.message = forward ? 'search hit BOTTOM, continuing at TOP' : 'search hit TOP, continuing at BOTTOM';
+    } else {
+      this.state.message = `${forward ? '/' : '?'}${pattern}`;
+    }
 
-    for (let i = 0; i < this.state.lines.length; i++) {
-      const lineIdx = (startLine - i + this.state.lines.length) % this.state.lines.length;
-      const line = this.state.lines[lineIdx].toLowerCase();
-      const searchEnd = i === 0 ? startCol : line.length;
-      const idx = line.lastIndexOf(pattern, searchEnd);
+    return {
+      target: result!.target,
+      linewise: this.searchOffset.type === 'line',
+      inclusive: this.searchOffset.type === 'end',
+    };
+  }
 
-      if (idx !== -1) {
-        this.state.cursor = { line: lineIdx, col: idx };
-        return;
-      }
+  private findSearchMatches(): SearchMatch[] {
+    const typing = this.state.mode === 'command' && /^[/?]/.test(this.state.commandBuffer);
+    let pattern = '';
+    if (typing) {
+      if (this.options.incsearch) pattern = parseSearchCommand(this.state.commandBuffer.slice(1), this.state.commandBuffer[0]).pattern;
+    } else if (this.options.hlsearch && this.highlightSearch) {
+      pattern = this.state.lastSearch;
     }
+
+    const regex = pattern ? compilePattern(pattern, this.options) : null;
+    return regex ? findMatches(this.state.lines, regex).filter((match) => match.end > match.start) : [];
   }
 
-  private searchWordUnderCursor(): void {
+  /**
+   * `*` and `#`: make the keyword under or after the cursor, as a whole word,
+   * the last search. Returns where the word starts, which is where `#`
+   * searches back from, or null when there is no word.
+   */
+  private searchWordUnderCursor(forward: boolean): CursorPosition | null {
     const line = this.getCurrentLine();
-    const col = this.state.cursor.col;
-
-    let start = col;
-    let end = col;
+    let start = this.state.cursor.col;
 
+    while (start < line.length && !/\w/.test(line[start])) start++;
     while (start > 0 && /\w/.test(line[start - 1])) start--;
+    let end = start;
     while (end < line.length && /\w/.test(line[end])) end++;
 
     const word = line.substring(start, end);
-    if (word) {
-      this.state.lastSearch = word;
-      this.searchNext();
+    if (!word) {
+      this.state.message = 'E348: No string under cursor';
+      return null;
     }
+
+    this.state.lastSearch = `\\<${word}\\>`;
+    this.state.registers['/'] = this.state.lastSearch;
+    this.searchForward = forward;
+    this.searchOffset = { type: 'none', amount: 0 };
+    return { line: this.state.cursor.line, col: start };
   }
 }
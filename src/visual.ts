@@ -0,0 +1,73 @@
+import { Selection, VimMode } from './types';
+
+/**
+ * Shapes of a visual selection. A selection runs from where visual mode
+ * started (`start`) to the cursor (`end`) and includes both ends:
+ *
+ *   visual        every character from one position to the other
+ *   visual-line   the whole of every line between them
+ *   visual-block  the rectangle between their columns, or up to the end
+ *                 of each line after `$`
+ */
+
+export type VisualMode = 'visual' | 'visual-line' | 'visual-block';
+
+export function isVisualMode(mode: VimMode): mode is VisualMode {
+  return mode === 'visual' || mode === 'visual-line' || mode === 'visual-block';
+}
+
+// The same selection with `start` before `end` in the buffer
+export function orderSelection(selection: Selection): Selection {
+  const { start, end } = selection;
+  if (start.line > end.line || (start.line === end.line && start.col > end.col)) {
+    return { ...selection, start: end, end: start };
+  }
+  return selection;
+}
+
+// Lines and columns a block covers; `right` is inclusive and Infinity after `$`
+export function blockBounds(selection: Selection): { top: number; bottom: number; left: number; right: number } {
+  const { start, end } = selection;
+  return {
+    top: Math.min(start.line, end.line),
+    bottom: Math.max(start.line, end.line),
+    left: Math.min(start.col, end.col),
+    right: selection.toLineEnd ? Infinity : Math.max(start.col, end.col),
+  };
+}
+
+export function isInSelection(mode: VimMode, selection: Selection, line: number, col: number): boolean {
+  if (mode === 'visual-block') {
+    const { top, bottom, left, right } = blockBounds(selection);
+    return line >= top && line <= bottom && col >= left && col <= right;
+  }
+
+  const { start, end } = orderSelection(selection);
+  if (line < start.line || line > end.line) return false;
+  if (mode === 'visual-line') return true;
+  if (line === start.line && col < start.col) return false;
+  if (line === end.line && col > end.col) return false;
+  return true;
+}
+
+// Columns of one line a selection covers, `to` exclusive, for commands that work line by line
+export function selectedColumns(
+  mode: VimMode,
+  selection: Selection,
+  line: number,
+  length: number
+): { from: number; to: number } {
+  if (mode === 'visual-block') {
+    const { left, right } = blockBounds(selection);
+    return { from: Math.min(left, length), to: Math.min(right + 1, length) };
+  }
+  if (mode === 'visual-line') {
+    return { from: 0, to: length };
+  }
+
+  const { start, end } = orderSelection(selection);
+  return {
+    from: line === start.line ? Math.min(start.col, length) : 0,
+    to: line === end.line ? Math.min(end.col + 1, length) : length,
+  };
+}